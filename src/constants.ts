@@ -2,9 +2,13 @@
 export const GAME_WIDTH = 800;
 export const GAME_HEIGHT = 600;
 
-// World
-export const WORLD_WIDTH = 1600;
-export const WORLD_HEIGHT = 3000;
+// Physics
+export const GRAVITY_Y = 2;
+export const PHYSICS_FRAME_MS = 1000 / 60;   // Matter step at 60 fps
+export const SIM_MAX_TICKS_PER_FRAME = 5;    // catch-up cap for slow frames
+
+// World (bounds come from the generated stage)
+export const SECTION_WALL_THICKNESS = 40;
 
 // Player
 export const PLAYER_RADIUS = 15;
@@ -12,6 +16,9 @@ export const PLAYER_MOVE_FORCE = 0.005;
 export const PLAYER_AIR_CONTROL = 0.003;
 export const PLAYER_MAX_VELOCITY = 8;
 export const PLAYER_JUMP_VELOCITY = -8;
+export const PLAYER_DENSITY = 0.001;       // Matter default; scaled by body weight
+export const DEFAULT_PLATFORM_FRICTION = 0.8;  // grip the player's friction is tuned for; biomes scale it
+export const WEIGHT_JUMP_PENALTY = 0.15;   // jump velocity lost per 1.0 body weight
 
 // Charged jump
 export const JUMP_CHARGE_MAX_MS = 600;
@@ -24,6 +31,12 @@ export const GRAPPLE_STIFFNESS = 0.04;
 export const GRAPPLE_DAMPING = 0.01;
 export const REEL_SPEED = 3;
 export const MIN_ROPE_LENGTH = 30;
+export const GRAPPLE_CUT_DISABLE_MS = 3000;  // grapple lockout after a thread cutter severs the rope
+
+// Attack (unlocked via attack_1 evolution)
+export const ATTACK_COOLDOWN_MS = 1500;
+export const ATTACK_RANGE = 45;
+export const ATTACK_KNOCKBACK = 9;
 
 // Health
 export const MAX_HP = 100;
@@ -32,11 +45,36 @@ export const FALL_THRESHOLD_SMALL = 100;
 export const FALL_THRESHOLD_MEDIUM = 300;
 export const FALL_THRESHOLD_LARGE = 600;
 
+// Enemies
+export const ENEMY_STUN_MS = 700;             // no self-movement after knockback
+export const CONTACT_INVULNERABLE_MS = 1000;  // grace after taking contact damage
+export const CONTACT_KNOCKBACK = 5;
+export const MIMIC_BITE_DELAY_MS = 150;       // rope holds this long before the bite
+export const MIMIC_BITE_DAMAGE = 12;
+export const MIMIC_REVEAL_MS = 2000;
+
+// Fragments (scattered on fall damage)
+export const FRAGMENT_DAMAGE_PER_DROP = 10;  // one fragment per this much damage
+export const FRAGMENT_INTAKE_LOSS = 2;       // food points lost per fragment
+export const FRAGMENT_REFUND_RATIO = 0.5;    // share of the loss returned on pickup
+export const FRAGMENT_LIFETIME_MS = 15000;
+export const FRAGMENT_FADE_MS = 3000;        // blinking before disappearing
+export const FRAGMENT_PICKUP_DELAY_MS = 500;
+export const FRAGMENT_RADIUS = 5;
+
+// Collision categories
+export const CATEGORY_DEFAULT = 0x0001;
+export const CATEGORY_PLAYER = 0x0002;
+export const CATEGORY_FRAGMENT = 0x0004;
+
 // Colors
 export const COLOR_PLAYER = 0x44ff44;
 export const COLOR_PLATFORM = 0x666688;
 export const COLOR_HOOK = 0xffdd44;
 export const COLOR_HOOK_IN_RANGE = 0xffff88;
+export const COLOR_MIMIC = 0xffd040;          // a shade warmer than COLOR_HOOK
+export const COLOR_MIMIC_IN_RANGE = 0xfff080;
+export const COLOR_MIMIC_REVEALED = 0xdd3344;
 export const COLOR_WALL = 0x333355;
 export const COLOR_GRAPPLE_LINE = 0xffffff;
 export const COLOR_RECOVERY = 0xff4444;
@@ -48,3 +86,8 @@ export const COLOR_DUST = 0xccccbb;
 export const COLOR_DUST_GLOW = 0xeeeecc;
 export const COLOR_SAP = 0xddaa44;
 export const COLOR_SAP_GLOW = 0xffcc66;
+export const COLOR_METAL = 0x6688aa;
+export const COLOR_METAL_GLOW = 0x99bbdd;
+export const COLOR_FLESH = 0xaa2233;
+export const COLOR_FLESH_GLOW = 0xdd4455;
+export const COLOR_ATTACK = 0xff6666;
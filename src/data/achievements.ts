@@ -0,0 +1,141 @@
+import * as C from '../constants';
+import { EvolutionNodeId, getBranchNodes } from './evolutionTree';
+
+/**
+ * Achievement IDs. They double as Steam achievement API names, so they
+ * stick to A-Z, 0-9 and underscores and must never be renamed once
+ * shipped; retire an achievement by removing it instead.
+ */
+export type AchievementId =
+  | 'FIRST_EVOLUTION'
+  | 'SAP_BRANCH_COMPLETE'
+  | 'ALL_BRANCHES_ONE_RUN'
+  | 'VINE_TENDRIL'
+  | 'FIRST_FALL'
+  | 'FALL_10_ONE_RUN'
+  | 'HEIGHT_1000M'
+  | 'HEIGHT_2000M'
+  | 'CLEAR_GOAL_1'
+  | 'CLEAR_GOAL_2'
+  | 'GOAL_2_NO_FALL_DAMAGE'
+  | 'GOAL_1_UNDER_2_MIN'
+  | 'CLEAR_FULL_HP';
+
+/** Something that happened during a run, in the order it happened. */
+export type RunEvent =
+  | { type: 'evolution'; node: EvolutionNodeId }
+  | { type: 'fall'; damage: number }
+  | { type: 'height'; meters: number }       // a new peak height
+  | { type: 'clear'; goal: string; ticks: number; hp: number; maxHp: number };
+
+/** The run so far, including the event being checked. */
+export interface RunProgress {
+  evolutions: EvolutionNodeId[];
+  falls: number;                // landings that dealt fall damage
+  fallDamage: number;
+  peakHeight: number;
+}
+
+export interface AchievementDef {
+  id: AchievementId;
+  name: string;
+  description: string;
+  /** Whether `event`, with the run so far, unlocks the achievement. */
+  unlocks: (event: RunEvent, run: RunProgress) => boolean;
+}
+
+const SAP_NODES = getBranchNodes('sap');
+const FOOD_BRANCHES = ['dust', 'sap', 'metal', 'flesh'] as const;
+
+function isClear(event: RunEvent, goal?: string): event is Extract<RunEvent, { type: 'clear' }> {
+  return event.type === 'clear' && (goal === undefined || event.goal === goal);
+}
+
+function seconds(ticks: number): number {
+  return (ticks * C.PHYSICS_FRAME_MS) / 1000;
+}
+
+/** Every achievement, in the order the encyclopedia lists them. */
+export const achievements: AchievementDef[] = [
+  {
+    id: 'FIRST_EVOLUTION',
+    name: '最初の一歩',
+    description: '初めて進化する',
+    unlocks: (e) => e.type === 'evolution',
+  },
+  {
+    id: 'SAP_BRANCH_COMPLETE',
+    name: '樹液の申し子',
+    description: '1回のランで樹液系の進化をすべて発見する',
+    unlocks: (e, run) => e.type === 'evolution' && SAP_NODES.every((id) => run.evolutions.includes(id)),
+  },
+  {
+    id: 'ALL_BRANCHES_ONE_RUN',
+    name: '雑食家',
+    description: '1回のランで4系統すべての進化を得る',
+    unlocks: (e, run) => e.type === 'evolution'
+      && FOOD_BRANCHES.every((branch) => getBranchNodes(branch).some((id) => run.evolutions.includes(id))),
+  },
+  {
+    id: 'VINE_TENDRIL',
+    name: '絡みつく者',
+    description: '蔓の触手に進化する',
+    unlocks: (e) => e.type === 'evolution' && e.node === 'vine_tendril',
+  },
+  {
+    id: 'FIRST_FALL',
+    name: '重力の洗礼',
+    description: '初めて落下ダメージを受ける',
+    unlocks: (e) => e.type === 'fall',
+  },
+  {
+    id: 'FALL_10_ONE_RUN',
+    name: '転落常習犯',
+    description: '1回のランで10回落下ダメージを受ける',
+    unlocks: (e, run) => e.type === 'fall' && run.falls >= 10,
+  },
+  {
+    id: 'HEIGHT_1000M',
+    name: '千メートルの壁',
+    description: '高度1000mに到達する',
+    unlocks: (e) => e.type === 'height' && e.meters >= 1000,
+  },
+  {
+    id: 'HEIGHT_2000M',
+    name: '雲上の虫',
+    description: '高度2000mに到達する',
+    unlocks: (e) => e.type === 'height' && e.meters >= 2000,
+  },
+  {
+    id: 'CLEAR_GOAL_1',
+    name: '登頂',
+    description: 'GOAL 1 に到達する',
+    unlocks: (e) => isClear(e, 'goal_near'),
+  },
+  {
+    id: 'CLEAR_GOAL_2',
+    name: '真の頂',
+    description: 'GOAL 2 に到達する',
+    unlocks: (e) => isClear(e, 'goal_far'),
+  },
+  {
+    id: 'GOAL_2_NO_FALL_DAMAGE',
+    name: '羽のように',
+    description: '落下ダメージを受けずに GOAL 2 に到達する',
+    unlocks: (e, run) => isClear(e, 'goal_far') && run.fallDamage === 0,
+  },
+  {
+    id: 'GOAL_1_UNDER_2_MIN',
+    name: '駆け上がり',
+    description: '2分以内に GOAL 1 に到達する',
+    unlocks: (e) => isClear(e, 'goal_near') && seconds(e.ticks) < 120,
+  },
+  {
+    id: 'CLEAR_FULL_HP',
+    name: '無傷の帰還',
+    description: 'HP満タンでゴールに到達する',
+    unlocks: (e) => isClear(e) && e.hp === e.maxHp,
+  },
+];
+
+export const ALL_ACHIEVEMENT_IDS: AchievementId[] = achievements.map((a) => a.id);
@@ -0,0 +1,75 @@
+import { FoodTypeId } from './foodTypes';
+
+export type BiomeId = 'spore_shallows' | 'sap_forest' | 'rust_cliffs';
+
+export interface BiomePalette {
+  backgroundTop: number;
+  backgroundBottom: number;
+  platform: number;
+  platformEdge: number;         // highlight along the top of platforms
+  label: string;                // HUD text color
+}
+
+export interface Biome {
+  id: BiomeId;
+  name: string;
+  nameEn: string;
+  palette: BiomePalette;
+  foodWeights: Record<FoodTypeId, number>;  // rolled for food spots without a fixed type
+  platformFriction: number;     // also scales the player's friction, see DEFAULT_PLATFORM_FRICTION
+  gravityMultiplier: number;    // applied to the player while inside the biome
+  description: string;
+}
+
+export const biomes: Record<BiomeId, Biome> = {
+  spore_shallows: {
+    id: 'spore_shallows',
+    name: '胞子の浅瀬',
+    nameEn: 'Spore Shallows',
+    palette: {
+      backgroundTop: 0x102a4a,
+      backgroundBottom: 0x140c30,
+      platform: 0x666688,
+      platformEdge: 0x8888aa,
+      label: '#aaccff',
+    },
+    foodWeights: { dust: 6, sap: 1, metal: 1, flesh: 0 },
+    platformFriction: 0.8,
+    gravityMultiplier: 0.95,
+    description: '胞子が漂う浅い底。空気がわずかに重く、落下が緩やか。',
+  },
+  sap_forest: {
+    id: 'sap_forest',
+    name: '樹液の柱林',
+    nameEn: 'Sap Pillar Forest',
+    palette: {
+      backgroundTop: 0x2a2410,
+      backgroundBottom: 0x14200e,
+      platform: 0x7a6040,
+      platformEdge: 0xc09050,
+      label: '#ffcc66',
+    },
+    foodWeights: { dust: 2, sap: 6, metal: 1, flesh: 0 },
+    platformFriction: 1.0,
+    gravityMultiplier: 1.0,
+    description: '樹液に濡れた柱の林。足場が粘り、滑りにくい。',
+  },
+  rust_cliffs: {
+    id: 'rust_cliffs',
+    name: '鉄錆の断崖',
+    nameEn: 'Rust Cliffs',
+    palette: {
+      backgroundTop: 0x3a1a10,
+      backgroundBottom: 0x1a0e0e,
+      platform: 0x885544,
+      platformEdge: 0xcc7744,
+      label: '#ff9966',
+    },
+    foodWeights: { dust: 1, sap: 1, metal: 6, flesh: 0 },
+    platformFriction: 0.4,
+    gravityMultiplier: 1.15,
+    description: '錆びた鉄の断崖。足場が滑り、体が重く感じる。',
+  },
+};
+
+export const ALL_BIOME_IDS: BiomeId[] = ['spore_shallows', 'sap_forest', 'rust_cliffs'];
@@ -0,0 +1,56 @@
+export type ChallengeRuleId = 'single_food' | 'no_evolve' | 'no_recovery' | 'no_grapple';
+
+/** What a run did that restriction rules care about, checked when it clears. */
+export interface ChallengeFacts {
+  foodTypesEaten: number;
+  evolutions: number;
+  recoveriesUsed: number;
+  grapplesFired: number;
+}
+
+export interface ChallengeRule {
+  id: ChallengeRuleId;
+  name: string;
+  description: string;
+  /** Whether a run with these facts kept the rule. */
+  held: (facts: ChallengeFacts) => boolean;
+}
+
+export const challengeRules: Record<ChallengeRuleId, ChallengeRule> = {
+  single_food: {
+    id: 'single_food',
+    name: '単食',
+    description: '最初に食べた食性しか摂取できない',
+    held: (f) => f.foodTypesEaten <= 1,
+  },
+  no_evolve: {
+    id: 'no_evolve',
+    name: '無進化',
+    description: '進化しない',
+    held: (f) => f.evolutions === 0,
+  },
+  no_recovery: {
+    id: 'no_recovery',
+    name: '回復なし',
+    description: '回復ポイントが使えない',
+    held: (f) => f.recoveriesUsed === 0,
+  },
+  no_grapple: {
+    id: 'no_grapple',
+    name: 'グラップルなし',
+    description: 'グラップルが撃てない',
+    held: (f) => f.grapplesFired === 0,
+  },
+};
+
+export const ALL_CHALLENGE_RULE_IDS: ChallengeRuleId[] = ['single_food', 'no_evolve', 'no_recovery', 'no_grapple'];
+
+/** Rules in canonical order, so the same set always gets the same badge. */
+export function normalizeChallenges(rules: readonly ChallengeRuleId[]): ChallengeRuleId[] {
+  return ALL_CHALLENGE_RULE_IDS.filter((id) => rules.includes(id));
+}
+
+/** Display name of a rule set, e.g. "単食+無進化". */
+export function challengeName(rules: readonly ChallengeRuleId[]): string {
+  return normalizeChallenges(rules).map((id) => challengeRules[id].name).join('+');
+}
@@ -0,0 +1,79 @@
+/**
+ * Enemy definitions.
+ *
+ * Enemies grow stronger by eating the fragments the player scatters on
+ * fall damage. Each level lists its cumulative modifiers; `levelUpFragments`
+ * gives the total fragments eaten needed to reach each level.
+ *
+ *  crawler (這い虫): normal → activated (+30% speed) → frenzied (+50% damage, larger body)
+ *  thread_cutter (糸切り虫): flies a figure-eight around hook points and
+ *                            cuts any grapple rope it touches
+ */
+
+export type EnemyTypeId = 'crawler' | 'thread_cutter';
+
+export interface EnemyLevel {
+  name: string;
+  speedMultiplier: number;
+  damageMultiplier: number;
+  scale: number;                // body size multiplier
+  color: number;
+}
+
+export interface EnemyType {
+  id: EnemyTypeId;
+  name: string;
+  radius: number;
+  speed: number;                // walk speed in px per step (patrol speed in rad/s for flyers)
+  contactDamage: number;
+  flying: boolean;              // ignores gravity and patrols around its spawn point
+  patrolRange: number;          // flyers: horizontal patrol half-width in px
+  cutsRope: boolean;            // severs grapple ropes it touches
+  eatsFragments: boolean;
+  aggroRange: number;           // horizontal distance at which it chases the player
+  fragmentSeekRange: number;    // distance at which it goes for fragments
+  fleshDrops: number;           // flesh pieces it sheds when driven off
+  levels: EnemyLevel[];
+  levelUpFragments: number[];   // index = level, value = total fragments eaten
+}
+
+export const enemyTypes: Record<EnemyTypeId, EnemyType> = {
+  crawler: {
+    id: 'crawler',
+    name: '這い虫',
+    radius: 11,
+    speed: 1.2,
+    contactDamage: 8,
+    flying: false,
+    patrolRange: 0,
+    cutsRope: false,
+    eatsFragments: true,
+    aggroRange: 360,
+    fragmentSeekRange: 320,
+    fleshDrops: 3,
+    levels: [
+      { name: '通常', speedMultiplier: 1.0, damageMultiplier: 1.0, scale: 1.0, color: 0x887766 },
+      { name: '活性化', speedMultiplier: 1.3, damageMultiplier: 1.0, scale: 1.0, color: 0xcc7733 },
+      { name: '凶暴化', speedMultiplier: 1.3, damageMultiplier: 1.5, scale: 1.4, color: 0xdd2222 },
+    ],
+    levelUpFragments: [0, 2, 5],
+  },
+  thread_cutter: {
+    id: 'thread_cutter',
+    name: '糸切り虫',
+    radius: 9,
+    speed: 0.9,
+    contactDamage: 4,
+    flying: true,
+    patrolRange: 120,
+    cutsRope: true,
+    eatsFragments: false,
+    aggroRange: 0,
+    fragmentSeekRange: 0,
+    fleshDrops: 2,
+    levels: [
+      { name: '通常', speedMultiplier: 1.0, damageMultiplier: 1.0, scale: 1.0, color: 0x9955cc },
+    ],
+    levelUpFragments: [0],
+  },
+};
@@ -1,18 +1,34 @@
 /**
- * Evolution Tree (Food-driven, 2 branches x 3 tiers):
+ * Evolution Tree (Food-driven, 4 branches x 3 tiers + mixed):
  *
  *  Dust branch (伸長系):
  *    stretch_1 (伸長I, 10pt) → stretch_2 (伸長II, 25pt) → sticky_1 (粘着I, 50pt)
  *
  *  Sap branch (跳躍系):
  *    jump_1 (跳躍I, 10pt) → jump_2 (跳躍II, 25pt) → traction_1 (牽引I, 50pt)
+ *
+ *  Metal branch (防御系):
+ *    shell_1 (外殻I, 10pt) → shell_2 (外殻II, 25pt) → weight_1 (重量I, 50pt)
+ *
+ *  Flesh branch (戦闘系):
+ *    attack_1 (攻撃I, 10pt) → attack_2 (攻撃II, 25pt) → predation_1 (捕食I, 50pt)
+ *
+ *  Mixed (混合進化, diet ratio driven):
+ *    vine_tendril (蔓の触手) — Dust 20pt + Sap 20pt, each 30-70% of intake,
+ *                              requires stretch_1 + jump_1
  */
 
 import { FoodTypeId } from './foodTypes';
 
 export type EvolutionNodeId =
   | 'stretch_1' | 'stretch_2' | 'sticky_1'
-  | 'jump_1' | 'jump_2' | 'traction_1';
+  | 'jump_1' | 'jump_2' | 'traction_1'
+  | 'shell_1' | 'shell_2' | 'weight_1'
+  | 'attack_1' | 'attack_2' | 'predation_1'
+  | 'vine_tendril';
+
+/** A single food branch, or 'mixed' for nodes driven by several foods. */
+export type EvolutionBranch = FoodTypeId | 'mixed';
 
 export interface EvolutionEffects {
   bodyStretchFactor?: number;   // multiplier for body height
@@ -21,18 +37,66 @@ export interface EvolutionEffects {
   canChargedJump?: boolean;     // unlocks charged jump
   canGrapple?: boolean;         // unlocks grapple
   grappleRange?: number;        // grapple range in px
+  maxHpBonus?: number;          // added to base max HP
+  fallDamageMultiplier?: number; // multiplier for fall damage taken
+  airControlMultiplier?: number; // multiplier for in-air move force
+  reelSpeedMultiplier?: number; // multiplier for rope reel speed
+  bodyWeight?: number;          // extra body weight (1.0 = double mass)
+  canAttack?: boolean;          // unlocks knockback attack
+  attackRange?: number;         // attack hitbox radius in px
+  hpOnHit?: number;             // HP absorbed per enemy hit
+}
+
+/**
+ * How values of the same effect from several active nodes are combined:
+ *   override — the most recently gained node wins
+ *   add      — values are summed onto the base
+ *   multiply — values are multiplied onto the base
+ *   max      — the largest value wins (true beats false for flags)
+ */
+export type EffectStackRule = 'override' | 'add' | 'multiply' | 'max';
+
+export const effectStackRules: Record<keyof EvolutionEffects, EffectStackRule> = {
+  bodyStretchFactor: 'max',
+  friction: 'override',
+  canJump: 'max',
+  canChargedJump: 'max',
+  canGrapple: 'max',
+  grappleRange: 'max',
+  maxHpBonus: 'add',
+  fallDamageMultiplier: 'multiply',
+  airControlMultiplier: 'multiply',
+  reelSpeedMultiplier: 'multiply',
+  bodyWeight: 'add',
+  canAttack: 'max',
+  attackRange: 'max',
+  hpOnHit: 'add',
+};
+
+/** Allowed share of total intake for one food type (0..1, inclusive). */
+export interface RatioWindow {
+  min: number;
+  max: number;
+}
+
+/** Diet conditions for mixed nodes; every listed condition must hold. */
+export interface MixedRequirement {
+  minPoints: Partial<Record<FoodTypeId, number>>;  // per-food minimum intake
+  ratios?: Partial<Record<FoodTypeId, RatioWindow>>;
+  prereqs: EvolutionNodeId[];                      // nodes that must be active
 }
 
 export interface EvolutionNode {
   id: EvolutionNodeId;
   name: string;
   description: string;
-  branch: FoodTypeId;
+  branch: EvolutionBranch;
   tier: number;                 // 1, 2, or 3
-  threshold: number;            // food points required
+  threshold: number;            // food points required (total for mixed nodes)
   effects: EvolutionEffects;
   color: number;
   prev: EvolutionNodeId | null; // previous tier in same branch
+  mixed?: MixedRequirement;     // required when branch is 'mixed'
 }
 
 export type EvolutionTree = Record<EvolutionNodeId, EvolutionNode>;
@@ -107,9 +171,110 @@ export const evolutionTree: EvolutionTree = {
     color: 0xbb6622,
     prev: 'jump_2',
   },
+
+  // ---- Metal branch ----
+  shell_1: {
+    id: 'shell_1',
+    name: '外殻I',
+    description: '最大HPが20増える',
+    branch: 'metal',
+    tier: 1,
+    threshold: 10,
+    effects: { maxHpBonus: 20 },
+    color: 0x6688aa,
+    prev: null,
+  },
+  shell_2: {
+    id: 'shell_2',
+    name: '外殻II',
+    description: '落下ダメージが30%減る',
+    branch: 'metal',
+    tier: 2,
+    threshold: 25,
+    effects: { fallDamageMultiplier: 0.7 },
+    color: 0x557799,
+    prev: 'shell_1',
+  },
+  weight_1: {
+    id: 'weight_1',
+    name: '重量I',
+    description: '体が重くなり、振りは安定するが跳躍は鈍る',
+    branch: 'metal',
+    tier: 3,
+    threshold: 50,
+    effects: { bodyWeight: 0.5 },
+    color: 0x446688,
+    prev: 'shell_2',
+  },
+
+  // ---- Flesh branch ----
+  attack_1: {
+    id: 'attack_1',
+    name: '攻撃I',
+    description: '追い払い攻撃が可能になる',
+    branch: 'flesh',
+    tier: 1,
+    threshold: 10,
+    effects: { canAttack: true },
+    color: 0xaa2233,
+    prev: null,
+  },
+  attack_2: {
+    id: 'attack_2',
+    name: '攻撃II',
+    description: '攻撃範囲が広がる',
+    branch: 'flesh',
+    tier: 2,
+    threshold: 25,
+    effects: { attackRange: 70 },
+    color: 0x991a2a,
+    prev: 'attack_1',
+  },
+  predation_1: {
+    id: 'predation_1',
+    name: '捕食I',
+    description: '攻撃を当てるとHPを吸収する',
+    branch: 'flesh',
+    tier: 3,
+    threshold: 50,
+    effects: { hpOnHit: 5 },
+    color: 0x881122,
+    prev: 'attack_2',
+  },
+
+  // ---- Mixed ----
+  vine_tendril: {
+    id: 'vine_tendril',
+    name: '蔓の触手',
+    description: '蔓を伸ばしてフックを掴める',
+    branch: 'mixed',
+    tier: 1,
+    threshold: 40,
+    effects: { canGrapple: true },
+    color: 0x99bb55,
+    prev: null,
+    mixed: {
+      minPoints: { dust: 20, sap: 20 },
+      ratios: {
+        dust: { min: 0.3, max: 0.7 },
+        sap: { min: 0.3, max: 0.7 },
+      },
+      prereqs: ['stretch_1', 'jump_1'],
+    },
+  },
 };
 
 export const ALL_NODE_IDS: EvolutionNodeId[] = [
   'stretch_1', 'stretch_2', 'sticky_1',
   'jump_1', 'jump_2', 'traction_1',
+  'shell_1', 'shell_2', 'weight_1',
+  'attack_1', 'attack_2', 'predation_1',
+  'vine_tendril',
 ];
+
+/** Nodes of one branch, ordered by tier. */
+export function getBranchNodes(branch: EvolutionBranch): EvolutionNodeId[] {
+  return ALL_NODE_IDS
+    .filter((id) => evolutionTree[id].branch === branch)
+    .sort((a, b) => evolutionTree[a].tier - evolutionTree[b].tier);
+}
@@ -1,12 +1,14 @@
-export type FoodTypeId = 'dust' | 'sap';
+export type FoodTypeId = 'dust' | 'sap' | 'metal' | 'flesh';
 
 export interface FoodType {
   id: FoodTypeId;
   name: string;
+  nameEn: string;
   color: number;
   glowColor: number;
   points: number;
   radius: number;
+  embedded: boolean;            // set into walls instead of floating in the air
   description: string;
 }
 
@@ -14,21 +16,52 @@ export const foodTypes: Record<FoodTypeId, FoodType> = {
   dust: {
     id: 'dust',
     name: '塵',
+    nameEn: 'Dust',
     color: 0xccccbb,
     glowColor: 0xeeeecc,
     points: 1,
     radius: 6,
+    embedded: false,
     description: '微細な鉱物粒子。伸長進化の糧。',
   },
   sap: {
     id: 'sap',
     name: '液',
+    nameEn: 'Sap',
     color: 0xddaa44,
     glowColor: 0xffcc66,
     points: 2,
     radius: 8,
+    embedded: false,
     description: '樹液の雫。跳躍進化の糧。',
   },
+  metal: {
+    id: 'metal',
+    name: '鉄粉',
+    nameEn: 'Metal',
+    color: 0x6688aa,
+    glowColor: 0x99bbdd,
+    points: 2,
+    radius: 7,
+    embedded: true,
+    description: '壁面に埋もれた鉄の粒。外殻進化の糧。',
+  },
+  flesh: {
+    id: 'flesh',
+    name: '肉',
+    nameEn: 'Flesh',
+    color: 0xaa2233,
+    glowColor: 0xdd4455,
+    points: 3,
+    radius: 7,
+    embedded: false,
+    description: '追い払った敵が落とす肉片。攻撃進化の糧。',
+  },
 };
 
-export const ALL_FOOD_TYPE_IDS: FoodTypeId[] = ['dust', 'sap'];
+export const ALL_FOOD_TYPE_IDS: FoodTypeId[] = ['dust', 'sap', 'metal', 'flesh'];
+
+/** A per-food point record with every food type at zero. */
+export function createEmptyPoints(): Record<FoodTypeId, number> {
+  return Object.fromEntries(ALL_FOOD_TYPE_IDS.map((id) => [id, 0])) as Record<FoodTypeId, number>;
+}
@@ -0,0 +1,638 @@
+/**
+ * Hand-made map sections (rooms) that MapGenerator stitches into a run.
+ *
+ * All coordinates are local to the section (origin = top-left corner).
+ * A section is entered through `entry` and left through `exit`; two
+ * sections connect when the previous exit and the next entry sit on
+ * opposite sides and have the same opening size.
+ *
+ * RUN_PLAN lists the slots of a run. Each slot is filled with an unused
+ * section of the same tier and role whose biome the slot allows.
+ *
+ * Classic sections (the original Proto 1 layout, 1600x3000 when stacked):
+ *   start_flat   始まりの平地   — roll only, Dust rich
+ *   low_steps    低い段差       — needs stretch_1
+ *   high_steps   高い段差       — needs stretch_2
+ *   first_gap    最初のギャップ — needs jump_1
+ *   big_gap_g1   大ギャップ+G1  — jump_1 + stretch
+ *   grapple_zone グラップル領域 — needs traction_1
+ *   far_goal     遠ゴール(G2)   — traction_1
+ */
+
+import {
+  AreaDef, EnemySpawnDef, GoalDef, HookPointDef, PlatformDef, PointDef,
+} from './stageData';
+import { FoodTypeId } from './foodTypes';
+import { BiomeId } from './biomes';
+import { EvolutionNodeId } from './evolutionTree';
+
+// ============ Type Definitions ============
+
+export type ConnectorSide = 'top' | 'bottom' | 'left' | 'right';
+
+/** An opening in a section edge. `offset` is measured from the top/left end of that edge. */
+export interface ConnectorDef {
+  side: ConnectorSide;
+  offset: number;
+  size: number;
+}
+
+/**
+ *  start   — first section of a run; has the player spawn and no entry
+ *  climb   — ordinary section
+ *  midGoal — contains an early goal and continues upward
+ *  final   — contains the last goal and has no exit
+ */
+export type SectionRole = 'start' | 'climb' | 'midGoal' | 'final';
+
+export interface SectionDef {
+  id: string;
+  name: string;
+  tier: number;                 // 0 = start, then rising difficulty
+  biome: BiomeId;
+  role: SectionRole;
+  width: number;
+  height: number;
+  entry: ConnectorDef | null;   // null only for start sections
+  exit: ConnectorDef | null;    // null only for final sections
+  requires?: EvolutionNodeId[]; // evolutions the layout is designed around (checked by ReachabilityChecker)
+  playerSpawn?: PointDef;       // start sections only
+  dustSpawnArea?: AreaDef;      // start sections only: ground dust respawn area
+  platforms: PlatformDef[];
+  hookPoints: HookPointDef[];
+  foodItems: SectionFoodDef[];
+  recoveryPoints: PointDef[];
+  enemySpawns: EnemySpawnDef[];
+  goals: GoalDef[];
+}
+
+/** Food spot in a section. Without a type, it is rolled from the biome's food table. */
+export interface SectionFoodDef {
+  x: number; y: number;
+  type?: FoodTypeId;
+}
+
+export interface PlanStep {
+  tier: number;
+  role: SectionRole;
+  biomes: BiomeId[];
+}
+
+// ============ Connectors ============
+
+const FULL_BOTTOM: ConnectorDef = { side: 'bottom', offset: 0, size: 1600 };
+const FULL_TOP: ConnectorDef = { side: 'top', offset: 0, size: 1600 };
+
+// ============ Section Pool ============
+
+export const sectionPool: SectionDef[] = [
+  // 始まりの平地 — roll only, Dust rich
+  {
+    id: 'start_flat',
+    name: '始まりの平地',
+    tier: 0,
+    biome: 'spore_shallows',
+    role: 'start',
+    width: 1600, height: 160,
+    entry: null,
+    exit: FULL_TOP,
+    playerSpawn: { x: 800, y: 60 },
+    dustSpawnArea: { x: 80, y: 40, w: 1440, h: 80 },
+    platforms: [
+      { x: 800, y: 140, w: 1600, h: 40 },
+    ],
+    hookPoints: [],
+    foodItems: [
+      { x: 200, y: 110, type: 'dust' },
+      { x: 350, y: 100, type: 'dust' },
+      { x: 500, y: 110, type: 'dust' },
+      { x: 650, y: 100, type: 'dust' },
+      { x: 800, y: 110, type: 'dust' },
+      { x: 950, y: 100, type: 'dust' },
+      { x: 1100, y: 110, type: 'dust' },
+      { x: 1250, y: 100, type: 'dust' },
+      { x: 1400, y: 110, type: 'dust' },
+      { x: 550, y: 60, type: 'dust' },
+      { x: 1050, y: 40, type: 'dust' },
+      { x: 1450, y: 20, type: 'dust' },
+      { x: 300, y: 70, type: 'sap' },
+      { x: 1200, y: 50, type: 'sap' },
+      { x: 8, y: 105, type: 'metal' },
+      { x: 8, y: 75, type: 'metal' },
+      { x: 1592, y: 105, type: 'metal' },
+      { x: 1592, y: 75, type: 'metal' },
+    ],
+    recoveryPoints: [],
+    enemySpawns: [],
+    goals: [],
+  },
+  // 低い段差 — needs stretch_1
+  {
+    id: 'low_steps',
+    name: '低い段差',
+    tier: 1,
+    biome: 'spore_shallows',
+    role: 'climb',
+    width: 1600, height: 440,
+    entry: FULL_BOTTOM,
+    exit: FULL_TOP,
+    requires: ['stretch_1'],
+    platforms: [
+      { x: 400, y: 420, w: 350, h: 16 },
+      { x: 1000, y: 380, w: 400, h: 16 },
+      { x: 500, y: 320, w: 350, h: 16 },
+      { x: 1200, y: 260, w: 350, h: 16 },
+      { x: 700, y: 200, w: 400, h: 16 },
+      { x: 300, y: 130, w: 350, h: 16 },
+      { x: 1100, y: 70, w: 350, h: 16 },
+      { x: 700, y: 10, w: 400, h: 16 },
+    ],
+    hookPoints: [],
+    foodItems: [
+      { x: 400, y: 330, type: 'dust' },
+      { x: 750, y: 300, type: 'dust' },
+      { x: 1100, y: 260, type: 'dust' },
+      { x: 500, y: 260, type: 'dust' },
+      { x: 850, y: 160, type: 'dust' },
+      { x: 1250, y: 220, type: 'dust' },
+      { x: 350, y: 100, type: 'dust' },
+      { x: 900, y: 60, type: 'dust' },
+      { x: 600, y: 10, type: 'dust' },
+      { x: 1200, y: 60, type: 'dust' },
+      { x: 550, y: 300, type: 'sap' },
+      { x: 950, y: 250, type: 'sap' },
+      { x: 300, y: 180, type: 'sap' },
+      { x: 1150, y: 100, type: 'sap' },
+      { x: 8, y: 360, type: 'metal' },
+      { x: 8, y: 220, type: 'metal' },
+      { x: 8, y: 80, type: 'metal' },
+      { x: 1592, y: 390, type: 'metal' },
+      { x: 1592, y: 250, type: 'metal' },
+      { x: 1592, y: 110, type: 'metal' },
+    ],
+    recoveryPoints: [],
+    enemySpawns: [
+      { x: 1000, y: 360, type: 'crawler' },
+    ],
+    goals: [],
+  },
+  // 高い段差 — needs stretch_2
+  {
+    id: 'high_steps',
+    name: '高い段差',
+    tier: 1,
+    biome: 'spore_shallows',
+    role: 'climb',
+    width: 1600, height: 400,
+    entry: FULL_BOTTOM,
+    exit: FULL_TOP,
+    requires: ['stretch_2'],
+    platforms: [
+      { x: 350, y: 350, w: 180, h: 16 },
+      { x: 800, y: 300, w: 200, h: 16 },
+      { x: 1200, y: 240, w: 200, h: 16 },
+      { x: 600, y: 180, w: 180, h: 16 },
+      { x: 1000, y: 120, w: 220, h: 16 },
+      { x: 400, y: 50, w: 200, h: 16 },
+    ],
+    hookPoints: [],
+    foodItems: [
+      { x: 450, y: 330, type: 'dust' },
+      { x: 900, y: 280, type: 'dust' },
+      { x: 1300, y: 220, type: 'dust' },
+      { x: 700, y: 160, type: 'dust' },
+      { x: 1100, y: 100, type: 'dust' },
+      { x: 500, y: 30, type: 'dust' },
+      { x: 250, y: 280, type: 'dust' },
+      { x: 1400, y: 150, type: 'dust' },
+      { x: 350, y: 330, type: 'sap' },
+      { x: 750, y: 270, type: 'sap' },
+      { x: 1150, y: 210, type: 'sap' },
+      { x: 550, y: 150, type: 'sap' },
+      { x: 950, y: 90, type: 'sap' },
+      { x: 350, y: 30, type: 'sap' },
+      { x: 8, y: 340, type: 'metal' },
+      { x: 8, y: 200, type: 'metal' },
+      { x: 8, y: 60, type: 'metal' },
+      { x: 1592, y: 370, type: 'metal' },
+      { x: 1592, y: 230, type: 'metal' },
+      { x: 1592, y: 90, type: 'metal' },
+    ],
+    recoveryPoints: [
+      { x: 800, y: 380 },
+    ],
+    enemySpawns: [
+      { x: 1200, y: 220, type: 'crawler' },
+    ],
+    goals: [],
+  },
+  // 最初のギャップ — needs jump_1
+  {
+    id: 'first_gap',
+    name: '最初のギャップ',
+    tier: 2,
+    biome: 'sap_forest',
+    role: 'climb',
+    width: 1600, height: 400,
+    entry: FULL_BOTTOM,
+    exit: FULL_TOP,
+    requires: ['jump_1'],
+    platforms: [
+      { x: 300, y: 360, w: 160, h: 16 },
+      { x: 700, y: 300, w: 140, h: 16 },
+      { x: 1100, y: 240, w: 160, h: 16 },
+      { x: 500, y: 160, w: 140, h: 16 },
+      { x: 900, y: 100, w: 160, h: 16 },
+      { x: 1300, y: 40, w: 140, h: 16 },
+    ],
+    hookPoints: [],
+    foodItems: [
+      { x: 400, y: 340, type: 'dust' },
+      { x: 800, y: 220, type: 'dust' },
+      { x: 1200, y: 120, type: 'dust' },
+      { x: 600, y: 20, type: 'dust' },
+      { x: 300, y: 340, type: 'sap' },
+      { x: 600, y: 280, type: 'sap' },
+      { x: 1000, y: 220, type: 'sap' },
+      { x: 400, y: 140, type: 'sap' },
+      { x: 800, y: 80, type: 'sap' },
+      { x: 1200, y: 20, type: 'sap' },
+      { x: 500, y: 180, type: 'sap' },
+      { x: 1100, y: 100, type: 'sap' },
+      { x: 8, y: 320, type: 'metal' },
+      { x: 8, y: 180, type: 'metal' },
+      { x: 8, y: 40, type: 'metal' },
+      { x: 1592, y: 350, type: 'metal' },
+      { x: 1592, y: 210, type: 'metal' },
+      { x: 1592, y: 70, type: 'metal' },
+    ],
+    recoveryPoints: [],
+    enemySpawns: [
+      { x: 900, y: 80, type: 'crawler' },
+    ],
+    goals: [],
+  },
+  // 大ギャップ+G1 — jump_1 + stretch
+  {
+    id: 'big_gap_g1',
+    name: '大ギャップ+G1',
+    tier: 2,
+    biome: 'sap_forest',
+    role: 'midGoal',
+    width: 1600, height: 400,
+    entry: FULL_BOTTOM,
+    exit: FULL_TOP,
+    requires: ['jump_1', 'stretch_1'],
+    platforms: [
+      { x: 600, y: 360, w: 160, h: 16 },
+      { x: 200, y: 280, w: 140, h: 16 },
+      { x: 800, y: 200, w: 160, h: 16 },
+      { x: 1200, y: 150, w: 160, h: 16 },
+    ],
+    hookPoints: [],
+    foodItems: [
+      { x: 500, y: 340, type: 'dust' },
+      { x: 300, y: 260, type: 'dust' },
+      { x: 700, y: 180, type: 'dust' },
+      { x: 1100, y: 130, type: 'dust' },
+      { x: 900, y: 260, type: 'dust' },
+      { x: 1300, y: 200, type: 'dust' },
+      { x: 700, y: 340, type: 'sap' },
+      { x: 200, y: 260, type: 'sap' },
+      { x: 900, y: 180, type: 'sap' },
+      { x: 1300, y: 130, type: 'sap' },
+      { x: 500, y: 200, type: 'sap' },
+      { x: 1100, y: 300, type: 'sap' },
+      { x: 8, y: 300, type: 'metal' },
+      { x: 8, y: 160, type: 'metal' },
+      { x: 1592, y: 330, type: 'metal' },
+      { x: 1592, y: 190, type: 'metal' },
+    ],
+    recoveryPoints: [
+      { x: 600, y: 340 },
+    ],
+    enemySpawns: [
+      { x: 800, y: 180, type: 'crawler' },
+    ],
+    goals: [
+      { x: 400, y: 100, w: 120, h: 60, label: 'goal_near', name: 'GOAL 1', stars: 2 },
+    ],
+  },
+  // グラップル領域 — needs traction_1
+  {
+    id: 'grapple_zone',
+    name: 'グラップル領域',
+    tier: 3,
+    biome: 'sap_forest',
+    role: 'climb',
+    width: 1600, height: 600,
+    entry: FULL_BOTTOM,
+    exit: FULL_TOP,
+    requires: ['traction_1'],
+    platforms: [
+      { x: 400, y: 550, w: 140, h: 16 },
+      { x: 900, y: 450, w: 160, h: 16 },
+      { x: 300, y: 300, w: 140, h: 16 },
+      { x: 1100, y: 200, w: 160, h: 16 },
+      { x: 600, y: 100, w: 140, h: 16 },
+    ],
+    hookPoints: [
+      { x: 600, y: 500 },
+      { x: 1100, y: 450 },
+      { x: 200, y: 350 },
+      { x: 800, y: 280 },
+      { x: 1300, y: 220, mimic: true },
+      { x: 450, y: 150 },
+      { x: 950, y: 80 },
+    ],
+    foodItems: [
+      { x: 500, y: 530, type: 'dust' },
+      { x: 800, y: 280, type: 'dust' },
+      { x: 400, y: 500, type: 'sap' },
+      { x: 1000, y: 430, type: 'sap' },
+      { x: 300, y: 280, type: 'sap' },
+      { x: 1200, y: 180, type: 'sap' },
+      { x: 700, y: 80, type: 'sap' },
+      { x: 500, y: 180, type: 'sap' },
+    ],
+    recoveryPoints: [],
+    enemySpawns: [
+      { x: 800, y: 360, type: 'thread_cutter' },
+      { x: 1050, y: 20, type: 'thread_cutter' },
+    ],
+    goals: [],
+  },
+  // 遠ゴール — traction_1
+  {
+    id: 'far_goal',
+    name: '遠ゴール',
+    tier: 3,
+    biome: 'sap_forest',
+    role: 'final',
+    width: 1600, height: 600,
+    entry: FULL_BOTTOM,
+    exit: null,
+    requires: ['traction_1'],
+    platforms: [
+      { x: 1000, y: 550, w: 140, h: 16 },
+      { x: 500, y: 450, w: 160, h: 16 },
+      { x: 1200, y: 350, w: 160, h: 16 },
+    ],
+    hookPoints: [
+      { x: 700, y: 580 },
+      { x: 1200, y: 500 },
+      { x: 400, y: 420, mimic: true },
+      { x: 900, y: 350 },
+      { x: 1100, y: 280 },
+    ],
+    foodItems: [],
+    recoveryPoints: [],
+    enemySpawns: [
+      { x: 750, y: 420, type: 'thread_cutter' },
+    ],
+    goals: [
+      { x: 800, y: 300, w: 120, h: 60, label: 'goal_far', name: 'GOAL 2', stars: 3 },
+    ],
+  },
+
+  // ---- Alternates ----
+
+  // 胞子の棚 — needs stretch_1, wide staggered shelves
+  {
+    id: 'spore_ledges',
+    name: '胞子の棚',
+    tier: 1,
+    biome: 'spore_shallows',
+    role: 'climb',
+    width: 1600, height: 440,
+    entry: FULL_BOTTOM,
+    exit: FULL_TOP,
+    requires: ['stretch_1'],
+    platforms: [
+      { x: 1150, y: 420, w: 380, h: 16 },
+      { x: 550, y: 370, w: 380, h: 16 },
+      { x: 1250, y: 300, w: 340, h: 16 },
+      { x: 400, y: 240, w: 320, h: 16 },
+      { x: 950, y: 180, w: 380, h: 16 },
+      { x: 350, y: 110, w: 340, h: 16 },
+      { x: 1000, y: 50, w: 380, h: 16 },
+    ],
+    hookPoints: [],
+    foodItems: [
+      { x: 1050, y: 400, type: 'dust' },
+      { x: 450, y: 350, type: 'dust' },
+      { x: 650, y: 350, type: 'dust' },
+      { x: 1350, y: 280, type: 'dust' },
+      { x: 300, y: 220, type: 'dust' },
+      { x: 850, y: 160, type: 'dust' },
+      { x: 1050, y: 160, type: 'dust' },
+      { x: 250, y: 90, type: 'dust' },
+      { x: 900, y: 30, type: 'dust' },
+      { x: 1100, y: 30, type: 'dust' },
+      { x: 1200, y: 280, type: 'sap' },
+      { x: 450, y: 90, type: 'sap' },
+      { x: 8, y: 380, type: 'metal' },
+      { x: 8, y: 240, type: 'metal' },
+      { x: 8, y: 100, type: 'metal' },
+      { x: 1592, y: 350, type: 'metal' },
+      { x: 1592, y: 210, type: 'metal' },
+      { x: 1592, y: 70, type: 'metal' },
+    ],
+    recoveryPoints: [],
+    enemySpawns: [
+      { x: 550, y: 350, type: 'crawler' },
+    ],
+    goals: [],
+  },
+  // 樹液の柱 — needs jump_1, sap sits on top of pillars
+  {
+    id: 'sap_pillars',
+    name: '樹液の柱',
+    tier: 2,
+    biome: 'sap_forest',
+    role: 'climb',
+    width: 1600, height: 400,
+    entry: FULL_BOTTOM,
+    exit: FULL_TOP,
+    requires: ['jump_1'],
+    platforms: [
+      { x: 250, y: 340, w: 160, h: 16 },
+      { x: 600, y: 320, w: 60, h: 120 },
+      { x: 950, y: 290, w: 60, h: 160 },
+      { x: 1300, y: 260, w: 160, h: 16 },
+      { x: 1050, y: 160, w: 140, h: 16 },
+      { x: 650, y: 100, w: 60, h: 100 },
+      { x: 300, y: 60, w: 160, h: 16 },
+    ],
+    hookPoints: [],
+    foodItems: [
+      { x: 450, y: 330, type: 'dust' },
+      { x: 1350, y: 240, type: 'dust' },
+      { x: 250, y: 320, type: 'sap' },
+      { x: 600, y: 245, type: 'sap' },
+      { x: 950, y: 195, type: 'sap' },
+      { x: 1300, y: 240, type: 'sap' },
+      { x: 1050, y: 140, type: 'sap' },
+      { x: 650, y: 35, type: 'sap' },
+      { x: 300, y: 40, type: 'sap' },
+      { x: 8, y: 320, type: 'metal' },
+      { x: 8, y: 180, type: 'metal' },
+      { x: 8, y: 40, type: 'metal' },
+      { x: 1592, y: 350, type: 'metal' },
+      { x: 1592, y: 210, type: 'metal' },
+      { x: 1592, y: 70, type: 'metal' },
+    ],
+    recoveryPoints: [],
+    enemySpawns: [
+      { x: 1300, y: 240, type: 'crawler' },
+    ],
+    goals: [],
+  },
+  // フック回廊 — needs traction_1, few footholds
+  {
+    id: 'hook_gallery',
+    name: 'フック回廊',
+    tier: 3,
+    biome: 'sap_forest',
+    role: 'climb',
+    width: 1600, height: 600,
+    entry: FULL_BOTTOM,
+    exit: FULL_TOP,
+    requires: ['traction_1'],
+    platforms: [
+      { x: 800, y: 560, w: 200, h: 16 },
+      { x: 250, y: 380, w: 140, h: 16 },
+      { x: 1350, y: 330, w: 140, h: 16 },
+      { x: 800, y: 150, w: 160, h: 16 },
+    ],
+    hookPoints: [
+      { x: 500, y: 480 },
+      { x: 1100, y: 470 },
+      { x: 300, y: 280 },
+      { x: 800, y: 330 },
+      { x: 1300, y: 230 },
+      { x: 550, y: 170, mimic: true },
+      { x: 1050, y: 100 },
+      { x: 800, y: 40 },
+    ],
+    foodItems: [
+      { x: 750, y: 540, type: 'dust' },
+      { x: 1350, y: 310, type: 'dust' },
+      { x: 850, y: 540, type: 'sap' },
+      { x: 250, y: 360, type: 'sap' },
+      { x: 1300, y: 310, type: 'sap' },
+      { x: 800, y: 130, type: 'sap' },
+      { x: 700, y: 300, type: 'sap' },
+      { x: 1000, y: 250, type: 'sap' },
+    ],
+    recoveryPoints: [
+      { x: 800, y: 530 },
+    ],
+    enemySpawns: [
+      { x: 800, y: 250, type: 'thread_cutter' },
+    ],
+    goals: [],
+  },
+  // 錆の岩棚 — needs jump_1, slippery metal-rich ledges
+  {
+    id: 'rust_ledges',
+    name: '錆の岩棚',
+    tier: 2,
+    biome: 'rust_cliffs',
+    role: 'climb',
+    width: 1600, height: 400,
+    entry: FULL_BOTTOM,
+    exit: FULL_TOP,
+    requires: ['jump_1'],
+    platforms: [
+      { x: 1300, y: 360, w: 260, h: 16 },
+      { x: 850, y: 300, w: 200, h: 16 },
+      { x: 400, y: 240, w: 220, h: 16 },
+      { x: 900, y: 160, w: 180, h: 16 },
+      { x: 1350, y: 100, w: 240, h: 16 },
+      { x: 600, y: 50, w: 200, h: 16 },
+    ],
+    hookPoints: [],
+    foodItems: [
+      { x: 1250, y: 340 },
+      { x: 850, y: 280 },
+      { x: 350, y: 220 },
+      { x: 450, y: 220 },
+      { x: 900, y: 140 },
+      { x: 1300, y: 80 },
+      { x: 600, y: 30 },
+      { x: 8, y: 330, type: 'metal' },
+      { x: 8, y: 200, type: 'metal' },
+      { x: 8, y: 70, type: 'metal' },
+      { x: 1592, y: 300, type: 'metal' },
+      { x: 1592, y: 170, type: 'metal' },
+      { x: 1592, y: 40, type: 'metal' },
+    ],
+    recoveryPoints: [],
+    enemySpawns: [
+      { x: 400, y: 220, type: 'crawler' },
+    ],
+    goals: [],
+  },
+  // 錆びた吊り橋跡 — needs traction_1, hooks over a bare drop
+  {
+    id: 'rust_span',
+    name: '錆びた吊り橋跡',
+    tier: 3,
+    biome: 'rust_cliffs',
+    role: 'climb',
+    width: 1600, height: 600,
+    entry: FULL_BOTTOM,
+    exit: FULL_TOP,
+    requires: ['traction_1'],
+    platforms: [
+      { x: 300, y: 540, w: 240, h: 16 },
+      { x: 1300, y: 420, w: 200, h: 16 },
+      { x: 400, y: 260, w: 180, h: 16 },
+      { x: 1100, y: 120, w: 200, h: 16 },
+    ],
+    hookPoints: [
+      { x: 700, y: 450 },
+      { x: 1000, y: 380, mimic: true },
+      { x: 1050, y: 300 },
+      { x: 750, y: 220 },
+      { x: 650, y: 90 },
+      { x: 900, y: 30 },
+    ],
+    foodItems: [
+      { x: 300, y: 520 },
+      { x: 1300, y: 400 },
+      { x: 400, y: 240 },
+      { x: 1100, y: 100 },
+      { x: 850, y: 340 },
+      { x: 8, y: 480, type: 'metal' },
+      { x: 8, y: 300, type: 'metal' },
+      { x: 1592, y: 220, type: 'metal' },
+      { x: 1592, y: 60, type: 'metal' },
+    ],
+    recoveryPoints: [
+      { x: 1300, y: 390 },
+    ],
+    enemySpawns: [
+      { x: 900, y: 280, type: 'thread_cutter' },
+    ],
+    goals: [],
+  },
+];
+
+// ============ Run Plan ============
+
+export const RUN_PLAN: PlanStep[] = [
+  { tier: 0, role: 'start', biomes: ['spore_shallows'] },
+  { tier: 1, role: 'climb', biomes: ['spore_shallows'] },
+  { tier: 1, role: 'climb', biomes: ['spore_shallows'] },
+  { tier: 2, role: 'climb', biomes: ['spore_shallows', 'sap_forest', 'rust_cliffs'] },
+  { tier: 2, role: 'midGoal', biomes: ['spore_shallows', 'sap_forest'] },
+  { tier: 3, role: 'climb', biomes: ['sap_forest', 'rust_cliffs'] },
+  { tier: 3, role: 'final', biomes: ['sap_forest'] },
+];
+
+/** The original fixed Proto 1 layout, bottom to top. */
+export const CLASSIC_SECTION_IDS: string[] = [
+  'start_flat', 'low_steps', 'high_steps', 'first_gap', 'big_gap_g1', 'grapple_zone', 'far_goal',
+];
@@ -1,6 +1,11 @@
 import Phaser from 'phaser';
 import { GameScene } from './scenes/GameScene';
-import { GAME_WIDTH, GAME_HEIGHT } from './constants';
+import { RunSetupScene } from './scenes/RunSetupScene';
+import { LevelEditorScene } from './scenes/LevelEditorScene';
+import { ReplayViewerScene } from './scenes/ReplayViewerScene';
+import { ENCYCLOPEDIA_REGISTRY_KEY, EncyclopediaSystem } from './systems/EncyclopediaSystem';
+import { createStorageBackend } from './systems/SaveStorage';
+import { GAME_WIDTH, GAME_HEIGHT, GRAVITY_Y } from './constants';
 
 const config: Phaser.Types.Core.GameConfig = {
   type: Phaser.AUTO,
@@ -10,15 +15,19 @@ const config: Phaser.Types.Core.GameConfig = {
   physics: {
     default: 'matter',
     matter: {
-      gravity: { x: 0, y: 2 },
+      gravity: { x: 0, y: GRAVITY_Y },
       debug: false,
     },
   },
-  scene: [GameScene],
+  scene: [RunSetupScene, GameScene, LevelEditorScene, ReplayViewerScene],
   scale: {
     mode: Phaser.Scale.FIT,
     autoCenter: Phaser.Scale.CENTER_BOTH,
   },
 };
 
-new Phaser.Game(config);
+// The save is loaded before the game starts, so scenes can read it synchronously
+EncyclopediaSystem.open(createStorageBackend()).then((encyclopedia) => {
+  const game = new Phaser.Game(config);
+  game.registry.set(ENCYCLOPEDIA_REGISTRY_KEY, encyclopedia);
+});
@@ -1,12 +1,42 @@
 import Phaser from 'phaser';
 import * as C from '../constants';
-import * as Stage from '../data/stageData';
-import { foodTypes, FoodTypeId } from '../data/foodTypes';
-import { evolutionTree, ALL_NODE_IDS, EvolutionNodeId } from '../data/evolutionTree';
+import { StageLayout, findSectionAt } from '../data/stageData';
+import { biomes, Biome } from '../data/biomes';
+import { foodTypes, FoodTypeId, ALL_FOOD_TYPE_IDS, createEmptyPoints } from '../data/foodTypes';
+import { evolutionTree, EvolutionNodeId, getBranchNodes } from '../data/evolutionTree';
+import {
+  ChallengeFacts, ChallengeRuleId, challengeName, challengeRules, normalizeChallenges,
+} from '../data/challenges';
 import { FeedingSystem } from '../systems/FeedingSystem';
+import { AchievementSystem } from '../systems/AchievementSystem';
+import { AchievementDef, RunEvent } from '../data/achievements';
 import { PlayerStats } from '../systems/PlayerStats';
-import { EncyclopediaSystem } from '../systems/EncyclopediaSystem';
+import { FragmentSystem, Fragment } from '../systems/FragmentSystem';
+import { EnemySystem, Enemy } from '../systems/EnemySystem';
+import { enemyTypes } from '../data/enemyTypes';
+import {
+  DeathCause, ENCYCLOPEDIA_REGISTRY_KEY, EncyclopediaSystem, HeatPoint, RunSummary, TimedEvolution,
+} from '../systems/EncyclopediaSystem';
 import { EncyclopediaUI } from '../ui/EncyclopediaUI';
+import {
+  biomeAt, drawBackground, drawGoalArea, drawPlatform, drawRecoveryPoint, drawWalls, goalTextColor,
+} from '../ui/StageRenderer';
+import { MapGenerator } from '../systems/MapGenerator';
+import { LevelFile, levelToStage } from '../systems/LevelLoader';
+import { SeededRandom } from '../systems/SeededRandom';
+import { SimClock } from '../systems/SimClock';
+import {
+  CLICK_PRIMARY, CLICK_SECONDARY, InputButton, InputPlayback, InputRecorder, InputRecording, ReplayMarker,
+  TickInput, buttonBit, idleInput,
+} from '../systems/InputRecorder';
+import { ReplayControl, saveLastReplay } from '../systems/Replay';
+import { GhostSystem, SplitDelta, layoutHash } from '../systems/GhostSystem';
+import { SplitTimer, formatTicks } from '../systems/SplitTimer';
+import { downloadText } from '../ui/fileDialogs';
+import { drawHeatPoints } from '../ui/Heatmap';
+import { RunSetupSceneData } from './RunSetupScene';
+import { LevelEditorSceneData } from './LevelEditorScene';
+import { startReplay } from './ReplayViewerScene';
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 const MatterLib = (Phaser.Physics.Matter as any).Matter as typeof MatterJS;
@@ -16,6 +46,8 @@ interface HookPoint {
   y: number;
   graphics: Phaser.GameObjects.Arc;
   glow: Phaser.GameObjects.Arc;
+  mimic: boolean;
+  revealedUntil: number;
 }
 
 interface RecoveryPoint {
@@ -35,19 +67,78 @@ interface FoodItem {
   sensorBody: MatterJS.BodyType;
 }
 
+/** Data passed to GameScene on start / restart. */
+export interface GameSceneData {
+  seed?: string;                // omitted = fresh random seed
+  level?: LevelFile;            // omitted = stage generated from the seed
+  editorLevel?: LevelFile;      // set when play-testing from the editor: Esc returns to it
+  replay?: InputRecording;      // replay these inputs instead of reading the player's
+  replayControl?: ReplayControl; // set by ReplayViewerScene to drive the replay
+  ghost?: boolean;              // race ghosts of earlier best clears (default on)
+  challenges?: ChallengeRuleId[]; // restriction rules for this run (replays use their own)
+}
+
+/** Ticks simulated per frame while fast-forwarding a replay to a seek target. */
+const SEEK_TICKS_PER_FRAME = 600;
+
+/**
+ * The run itself. Gameplay advances in fixed ticks driven by SimClock and
+ * reads input only through the TickInput of each tick, so a run recorded
+ * by InputRecorder replays to exactly the same result on the same seed.
+ */
 export class GameScene extends Phaser.Scene {
+  // Run randomness: one stream per consumer so they stay independent
+  private rng!: SeededRandom;
+  private spawnRng!: SeededRandom;   // dust respawns
+  private fxRng!: SeededRandom;      // cosmetic tween timing
+
+  // Fixed-step simulation
+  private clock!: SimClock;
+  private recorder!: InputRecorder;
+  private playback: InputPlayback | null = null;
+  private replayControl: ReplayControl | null = null;
+  private tickInput: TickInput = idleInput();
+  private prevButtons: number = 0;
+  private pendingClicks: number = 0;    // live clicks and wheel notches since the last tick
+  private pendingWheel: number = 0;
+  private hitstopTicks: number = 0;     // ticks to hold the simulation after an evolution
+  private heldInput: TickInput = idleInput();  // presses (as buttons), clicks and wheel made during hitstop
+
+  // Stage
+  private level: LevelFile | null = null;
+  private editorLevel: LevelFile | null = null;
+  private stage!: StageLayout;
+  private currentBiome!: Biome;
+  private levelKey: string = '';        // identifies the level for ghosts: file ID or seed
+  private stageHash: string = '';
+  private sectionIndex: number = -1;
+  private furthestSection: number = 0;  // sections are in run order
+
   // Systems
   private feeding!: FeedingSystem;
   private stats!: PlayerStats;
+  private fragments!: FragmentSystem;
+  private enemies!: EnemySystem;
+  private ghosts!: GhostSystem;
+  private timer!: SplitTimer;
+  private showGhost: boolean = true;
 
   // Player
   private player!: Phaser.Physics.Matter.Sprite;
   private playerHP: number = C.MAX_HP;
   private isDead: boolean = false;
+  private lastContactDamageTime: number = -Infinity;
   private currentStretchFactor: number = 1.0;
+  private currentMaxHp: number = C.MAX_HP;
 
   // Fall tracking
   private peakY: number = 0;
+  private runPeakHeight: number = 0;
+  private runIntake: Record<FoodTypeId, number> = createEmptyPoints();
+  private runEvolutions: TimedEvolution[] = [];
+  private challenges: ChallengeRuleId[] = [];
+  private recoveriesUsed: number = 0;
+  private grapplesFired: number = 0;
   private groundContacts: number = 0;
   private wasGrounded: boolean = true;
 
@@ -55,11 +146,16 @@ export class GameScene extends Phaser.Scene {
   private isChargingJump: boolean = false;
   private jumpChargeStart: number = 0;
 
+  // Attack
+  private lastAttackTime: number = -Infinity;
+
   // Grapple
   private grappleState: 'idle' | 'attached' = 'idle';
   private grappleConstraint: any = null;
   private grappleTarget: HookPoint | null = null;
   private ropeLength: number = 0;
+  private grappleDisabledUntil: number = 0;
+  private grappleAttachedAt: number = 0;
   private grappleLine!: Phaser.GameObjects.Graphics;
   private aimLine!: Phaser.GameObjects.Graphics;
 
@@ -71,6 +167,8 @@ export class GameScene extends Phaser.Scene {
   // UI
   private encyclopediaSystem!: EncyclopediaSystem;
   private encyclopediaUI!: EncyclopediaUI;
+  private achievements!: AchievementSystem;
+  private toastQueue: AchievementDef[] = [];
 
   // Input
   private keyW!: Phaser.Input.Keyboard.Key;
@@ -79,6 +177,12 @@ export class GameScene extends Phaser.Scene {
   private keyD!: Phaser.Input.Keyboard.Key;
   private keySpace!: Phaser.Input.Keyboard.Key;
   private keyR!: Phaser.Input.Keyboard.Key;
+  private keyE!: Phaser.Input.Keyboard.Key;
+  private keyShift!: Phaser.Input.Keyboard.Key;
+  private keyEsc!: Phaser.Input.Keyboard.Key;
+  private keyP!: Phaser.Input.Keyboard.Key;
+  private keyL!: Phaser.Input.Keyboard.Key;
+  private keyH!: Phaser.Input.Keyboard.Key;
   private cursors!: Phaser.Types.Input.Keyboard.CursorKeys;
 
   // HUD
@@ -89,6 +193,11 @@ export class GameScene extends Phaser.Scene {
   private controlsText!: Phaser.GameObjects.Text;
   private feedingHUD!: Phaser.GameObjects.Graphics;
   private feedingText!: Phaser.GameObjects.Text;
+  private attackHUD!: Phaser.GameObjects.Graphics;
+  private grappleStatusText!: Phaser.GameObjects.Text;
+  private biomeText!: Phaser.GameObjects.Text;
+  private timerText!: Phaser.GameObjects.Text;
+  private heatmapGfx: Phaser.GameObjects.Graphics | null = null;
 
   // Victory state
   private goalReached: string = '';
@@ -96,29 +205,60 @@ export class GameScene extends Phaser.Scene {
   // Dust respawn
   private dustSpawnTimer: number = 0;
   private readonly DUST_SPAWN_INTERVAL = 2000;  // ms between spawns
-  private readonly DUST_SPAWN_Y_MIN = 2880;     // ground area
-  private readonly DUST_SPAWN_Y_MAX = 2960;
-  private readonly DUST_SPAWN_X_MIN = 80;
-  private readonly DUST_SPAWN_X_MAX = 1520;
+  private readonly EVOLUTION_HITSTOP_MS = 300;
 
   constructor() {
     super({ key: 'GameScene' });
   }
 
-  create() {
+  init(data: GameSceneData) {
+    this.rng = new SeededRandom(data.replay?.seed || data.seed || SeededRandom.randomSeed());
+    this.spawnRng = this.rng.fork('spawn');
+    this.fxRng = this.rng.fork('fx');
+  }
+
+  create(data: GameSceneData) {
+    this.level = data.level ?? null;
+    this.editorLevel = data.editorLevel ?? null;
+
+    // Fixed-step simulation: Matter only steps when a tick runs
+    this.matter.world.autoUpdate = false;
+    this.clock = new SimClock();
+    this.challenges = normalizeChallenges(data.replay?.challenges ?? data.challenges ?? []);
+    this.recoveriesUsed = 0;
+    this.grapplesFired = 0;
+    this.recorder = new InputRecorder(this.rng.seed, this.level?.id ?? null, this.challenges);
+    this.playback = data.replay ? new InputPlayback(data.replay) : null;
+    this.replayControl = data.replayControl ?? null;
+    this.tickInput = idleInput();
+    this.prevButtons = 0;
+    this.pendingClicks = 0;
+    this.pendingWheel = 0;
+    this.hitstopTicks = 0;
+    this.heldInput = idleInput();
+
     // Systems
-    this.feeding = new FeedingSystem();
+    this.feeding = new FeedingSystem({
+      singleFood: this.challenges.includes('single_food'),
+      noEvolve: this.challenges.includes('no_evolve'),
+    });
     this.stats = new PlayerStats(this.feeding);
+    this.fragments = new FragmentSystem(this, this.rng.fork('fragments'), this.clock);
+    this.enemies = new EnemySystem(this, this.fragments, this.rng.fork('enemies'), this.clock);
 
     // Evolution callback
     this.feeding.onEvolve((nodeId) => this.onEvolutionGained(nodeId));
+    this.enemies.onLevelUp((enemy) => this.onEnemyLevelUp(enemy));
 
     // Reset state
     this.playerHP = this.stats.maxHp;
     this.isDead = false;
+    this.lastContactDamageTime = -Infinity;
     this.grappleState = 'idle';
     this.grappleConstraint = null;
     this.grappleTarget = null;
+    this.grappleDisabledUntil = 0;
+    this.grappleAttachedAt = 0;
     this.groundContacts = 0;
     this.wasGrounded = true;
     this.hookPoints = [];
@@ -126,11 +266,41 @@ export class GameScene extends Phaser.Scene {
     this.foodItemObjs = [];
     this.isChargingJump = false;
     this.jumpChargeStart = 0;
+    this.lastAttackTime = -Infinity;
     this.currentStretchFactor = 1.0;
+    this.currentMaxHp = this.stats.maxHp;
     this.goalReached = '';
     this.dustSpawnTimer = 0;
 
-    this.encyclopediaSystem = new EncyclopediaSystem();
+    // Replays and play-tests skip their records below, and get a sandbox
+    // anyway so that a missed guard still can't touch the real save
+    const encyclopedia: EncyclopediaSystem = this.registry.get(ENCYCLOPEDIA_REGISTRY_KEY);
+    this.encyclopediaSystem = this.playback || this.editorLevel ? encyclopedia.sandbox() : encyclopedia;
+    this.achievements = new AchievementSystem((id) => this.encyclopediaSystem.hasAchievement(id));
+    this.achievements.onUnlock((achievement) => this.onAchievementUnlocked(achievement));
+    this.toastQueue = [];
+
+    // Stage layout for this run
+    this.stage = this.level
+      ? levelToStage(this.level)
+      : new MapGenerator(this.rng.fork('map')).generate();
+    this.currentBiome = biomeAt(this.stage, this.stage.playerSpawn.x, this.stage.playerSpawn.y);
+
+    // Ghosts of the best clears on this exact layout (not in replays or play-tests)
+    this.showGhost = data.ghost ?? true;
+    this.levelKey = this.level ? this.level.id : `seed:${this.rng.seed}`;
+    this.stageHash = layoutHash(this.stage);
+    this.sectionIndex = -1;
+    this.heatmapGfx = null;
+    this.furthestSection = 0;
+    this.runPeakHeight = 0;
+    this.runIntake = createEmptyPoints();
+    this.runEvolutions = [];
+    const ghostRecords = this.playback || this.editorLevel
+      ? []
+      : this.encyclopediaSystem.getGhosts(this.levelKey, this.stageHash);
+    this.ghosts = new GhostSystem(this, this.stage, this.showGhost ? ghostRecords : []);
+    this.timer = new SplitTimer(this.stage.sections[0].id);
 
     // Background
     this.createBackground();
@@ -143,6 +313,7 @@ export class GameScene extends Phaser.Scene {
     this.createFoodItems();
     this.createGoals();
     this.createDeathZone();
+    this.createEnemies();
 
     // Player
     this.createPlayer();
@@ -155,7 +326,7 @@ export class GameScene extends Phaser.Scene {
     this.setupInput();
 
     // Camera
-    this.cameras.main.setBounds(0, 0, C.WORLD_WIDTH, C.WORLD_HEIGHT);
+    this.cameras.main.setBounds(0, 0, this.stage.width, this.stage.height);
     this.cameras.main.startFollow(this.player, true, 0.1, 0.1);
 
     // Collisions
@@ -165,50 +336,180 @@ export class GameScene extends Phaser.Scene {
     this.createHUD();
 
     // Encyclopedia UI
-    this.encyclopediaUI = new EncyclopediaUI(this, this.encyclopediaSystem);
+    this.encyclopediaUI = new EncyclopediaUI(this, this.encyclopediaSystem, {
+      stage: this.stage,
+      levelKey: this.levelKey,
+      layoutHash: this.stageHash,
+    });
 
     // Cursor: default until grapple unlocked
     this.input.setDefaultCursor('default');
   }
 
-  update(time: number, _delta: number) {
+  update(_time: number, delta: number) {
     if (this.keyR.isDown) {
       this.restartGame();
       return;
     }
-    if (this.isDead) return;
+    if (this.keyEsc.isDown) {
+      if (this.editorLevel) {
+        this.returnToEditor();
+      } else {
+        this.openRunSetup();
+      }
+      return;
+    }
+    if (Phaser.Input.Keyboard.JustDown(this.keyH)) this.toggleHeatmap();
+    const control = this.replayControl;
+    if (control && control.seekTarget !== null && control.seekTarget < this.playback!.position) {
+      // Rewinding means simulating again from the first tick
+      this.restartReplay();
+      return;
+    }
+    if (this.isDead) {
+      if (control) {
+        control.seekTarget = null;
+      } else if (Phaser.Input.Keyboard.JustDown(this.keyP)) {
+        this.watchReplay();
+      }
+      if (this.goalReached && Phaser.Input.Keyboard.JustDown(this.keyL)) this.exportSplits();
+      return;
+    }
     if (this.encyclopediaUI.isVisible()) return;
 
-    this.handleSpaceKey(time);
-    this.handleMovement();
-    this.handleGrappleReel(_delta);
-    this.spawnDustTick(time);
+    const ticks = this.ticksDue(delta);
+    for (let i = 0; i < ticks && !this.isDead; i++) {
+      const input = this.playback ? this.playback.next() : this.sampleInput();
+      if (!input) break;
+      this.simulateTick(input);
+    }
+
+    if (control) {
+      control.tick = this.playback!.position;
+      control.ended = this.isDead || this.playback!.isFinished();
+      if (control.seekTarget === control.tick) control.seekTarget = null;
+    }
+
     this.drawGrappleLine();
     this.drawAimIndicator();
     this.updateHookVisuals();
-    this.trackFalling();
+    this.ghosts.draw(this.clock.tick);
     this.updateHUD();
   }
 
+  /** Ticks to run this frame: real time, or what the replay viewer asks for. */
+  private ticksDue(delta: number): number {
+    const control = this.replayControl;
+    if (!control) return this.clock.consumeFrame(delta);
+    if (control.seekTarget !== null) {
+      return Math.min(control.seekTarget - this.playback!.position, SEEK_TICKS_PER_FRAME);
+    }
+    return control.paused ? 0 : this.clock.consumeFrame(delta * control.speed);
+  }
+
+  /** One fixed step of gameplay. Everything that affects the outcome of a run happens here. */
+  private simulateTick(input: TickInput) {
+    this.tickInput = input;
+    if (!this.playback) this.recorder.record(input);
+
+    if (this.hitstopTicks > 0) {
+      // Input made during the freeze is kept for the first tick after it
+      this.hitstopTicks--;
+      this.heldInput.buttons |= input.buttons & ~this.prevButtons;
+      this.heldInput.clicks |= input.clicks;
+      this.heldInput.wheel += input.wheel;
+    } else {
+      this.tickInput = {
+        ...input,
+        clicks: input.clicks | this.heldInput.clicks,
+        wheel: input.wheel + this.heldInput.wheel,
+      };
+      const now = this.clock.now;
+      this.handleSpaceKey(now);
+      this.handleAttackKey(now);
+      this.handleClicks();
+      this.handleWheel();
+      this.handleMovement();
+      this.applyBiomeGravity();
+      this.handleGrappleReel();
+      this.checkMimicBite();
+      this.spawnDustTick(now);
+      this.fragments.update();
+      this.collectFragments();
+      this.enemies.update(this.player.x, this.player.y);
+      this.checkRopeCut();
+      this.matter.world.step(C.PHYSICS_FRAME_MS);
+      this.trackFalling();
+      this.trackSection();
+      this.updateBiome();
+      this.ghosts.recordTick(this.clock.tick, this.player.x, this.player.y);
+      this.clock.advance();
+      this.heldInput = idleInput();
+    }
+
+    this.prevButtons = input.buttons;
+  }
+
+  /** Sample the live keyboard and pointer for the next tick. */
+  private sampleInput(): TickInput {
+    const held: Record<InputButton, boolean> = {
+      left: this.keyA.isDown || this.cursors.left.isDown,
+      right: this.keyD.isDown || this.cursors.right.isDown,
+      up: this.keyW.isDown || this.cursors.up.isDown,
+      down: this.keyS.isDown || this.cursors.down.isDown,
+      jump: this.keySpace.isDown,
+      attack: this.keyE.isDown || this.keyShift.isDown,
+    };
+    let buttons = 0;
+    for (const button of Object.keys(held) as InputButton[]) {
+      if (held[button]) buttons |= buttonBit(button);
+    }
+
+    const pointer = this.input.activePointer;
+    const world = this.cameras.main.getWorldPoint(pointer.x, pointer.y);
+    const input: TickInput = {
+      buttons,
+      pointerX: Math.round(world.x),
+      pointerY: Math.round(world.y),
+      wheel: this.pendingWheel,
+      clicks: this.pendingClicks,
+    };
+    this.pendingClicks = 0;
+    this.pendingWheel = 0;
+    return input;
+  }
+
+  private isHeld(button: InputButton): boolean {
+    return (this.tickInput.buttons & buttonBit(button)) !== 0;
+  }
+
+  /** Pressed since the last tick, or during the hitstop that just ended. */
+  private justPressed(button: InputButton): boolean {
+    const bit = buttonBit(button);
+    return (this.isHeld(button) && (this.prevButtons & bit) === 0) || (this.heldInput.buttons & bit) !== 0;
+  }
+
+  /** Compact description of the run's end state; equal fingerprints mean a replay matched. */
+  private fingerprint(): string {
+    const body = this.player.body as MatterJS.BodyType;
+    return [
+      `tick=${this.clock.tick}`,
+      `pos=${body.position.x},${body.position.y}`,
+      `hp=${this.playerHP}`,
+      `evo=${this.feeding.getActiveEvolutions().join('+')}`,
+      `goal=${this.goalReached}`,
+    ].join(' ');
+  }
+
   // ======================== Creation ========================
 
   private createBackground() {
-    const bg = this.add.graphics().setDepth(-10);
-    const bandHeight = 200;
-    for (let y = 0; y < C.WORLD_HEIGHT; y += bandHeight) {
-      const progress = y / C.WORLD_HEIGHT;
-      const r = Math.floor(10 + progress * 10);
-      const g = Math.floor(10 + (1 - progress) * 50);
-      const b = Math.floor(46 + (1 - progress) * 60);
-      const color = (r << 16) | (g << 8) | b;
-      bg.fillStyle(color, 1);
-      bg.fillRect(0, y, C.WORLD_WIDTH, bandHeight);
-    }
+    drawBackground(this.add.graphics().setDepth(-10), this.stage);
 
     // Height markers
-    for (let h = 500; h < C.WORLD_HEIGHT; h += 500) {
+    for (let h = 500; h < this.stage.height; h += 500) {
       this.add
-        .text(C.WORLD_WIDTH - 10, C.WORLD_HEIGHT - h, `${h}m`, {
+        .text(this.stage.width - 10, this.stage.height - h, `${h}m`, {
           fontSize: '12px',
           color: '#ffffff',
         })
@@ -218,75 +519,72 @@ export class GameScene extends Phaser.Scene {
     }
   }
 
+  /** Section boundary walls; openings between sections are left clear. */
   private createWalls() {
-    const thick = 40;
-    // Left wall
-    this.matter.add.rectangle(-thick / 2, C.WORLD_HEIGHT / 2, thick, C.WORLD_HEIGHT + 400, {
-      isStatic: true,
-      label: 'wall',
-    });
-    // Right wall
-    this.matter.add.rectangle(C.WORLD_WIDTH + thick / 2, C.WORLD_HEIGHT / 2, thick, C.WORLD_HEIGHT + 400, {
-      isStatic: true,
-      label: 'wall',
-    });
-    // Ceiling
-    this.matter.add.rectangle(C.WORLD_WIDTH / 2, -thick / 2, C.WORLD_WIDTH + 200, thick, {
-      isStatic: true,
-      label: 'wall',
-    });
-
-    // Visual walls
-    const gfx = this.add.graphics().setDepth(-1);
-    gfx.fillStyle(C.COLOR_WALL, 1);
-    gfx.fillRect(-5, 0, 10, C.WORLD_HEIGHT);
-    gfx.fillRect(C.WORLD_WIDTH - 5, 0, 10, C.WORLD_HEIGHT);
+    for (const w of this.stage.walls) {
+      this.matter.add.rectangle(w.x, w.y, w.w, w.h, {
+        isStatic: true,
+        label: 'wall',
+      });
+    }
+    drawWalls(this.add.graphics().setDepth(-1), this.stage.walls);
   }
 
   private createPlatforms() {
     const gfx = this.add.graphics().setDepth(1);
 
-    for (const p of Stage.platforms) {
+    for (const p of this.stage.platforms) {
+      const biome = biomeAt(this.stage, p.x, p.y);
       this.matter.add.rectangle(p.x, p.y, p.w, p.h, {
         isStatic: true,
         label: 'platform',
-        friction: 0.8,
+        friction: biome.platformFriction,
       });
-
-      gfx.fillStyle(C.COLOR_PLATFORM, 1);
-      gfx.fillRect(p.x - p.w / 2, p.y - p.h / 2, p.w, p.h);
-      gfx.fillStyle(0x8888aa, 1);
-      gfx.fillRect(p.x - p.w / 2, p.y - p.h / 2, p.w, 2);
+      drawPlatform(gfx, p, biome);
     }
   }
 
   private createHookPoints() {
-    for (const h of Stage.hookPoints) {
-      const glow = this.add.circle(h.x, h.y, 14, C.COLOR_HOOK, 0.15).setDepth(4);
-      const circle = this.add.circle(h.x, h.y, 8, C.COLOR_HOOK, 0.7).setDepth(5);
+    for (const h of this.stage.hookPoints) {
+      const mimic = h.mimic === true;
+      const color = mimic ? C.COLOR_MIMIC : C.COLOR_HOOK;
+      const glow = this.add.circle(h.x, h.y, 14, color, 0.15).setDepth(4);
+      const circle = this.add.circle(h.x, h.y, 8, color, 0.7).setDepth(5);
 
+      // Mimics breathe slightly faster than real hooks
       this.tweens.add({
         targets: circle,
         alpha: { from: 0.5, to: 0.9 },
-        duration: 1200,
+        duration: mimic ? 950 : 1200,
         ease: 'Sine.easeInOut',
         yoyo: true,
         repeat: -1,
-        delay: Math.random() * 1000,
+        delay: this.fxRng.between(0, 1000),
       });
 
-      this.hookPoints.push({ x: h.x, y: h.y, graphics: circle, glow });
+      // Tell: an occasional twitch of the glow
+      if (mimic) {
+        this.tweens.add({
+          targets: glow,
+          x: h.x + 1.5,
+          duration: 60,
+          yoyo: true,
+          repeat: 2,
+          repeatDelay: 40,
+          loop: -1,
+          loopDelay: this.fxRng.between(2500, 4000),
+        });
+      }
+
+      this.hookPoints.push({ x: h.x, y: h.y, graphics: circle, glow, mimic, revealedUntil: 0 });
     }
   }
 
   private createRecoveryPoints() {
-    for (const r of Stage.recoveryPoints) {
+    for (const r of this.stage.recoveryPoints) {
       const gfx = this.add.graphics().setDepth(5);
-      gfx.fillStyle(C.COLOR_RECOVERY, 0.8);
-      gfx.fillRect(r.x - 3, r.y - 10, 6, 20);
-      gfx.fillRect(r.x - 10, r.y - 3, 20, 6);
-      gfx.fillStyle(C.COLOR_RECOVERY, 0.12);
-      gfx.fillCircle(r.x, r.y, 22);
+      drawRecoveryPoint(gfx, r);
+      if (this.challenges.includes('no_recovery')) gfx.setAlpha(0.15);
 
       this.matter.add.rectangle(r.x, r.y, 40, 40, {
         isStatic: true,
@@ -299,20 +597,30 @@ export class GameScene extends Phaser.Scene {
   }
 
   private createFoodItems() {
-    for (const f of Stage.foodItems) {
+    for (const f of this.stage.foodItems) {
       const ft = foodTypes[f.type];
+
+      // Embedded food sits in a rock socket that remains after pickup
+      if (ft.embedded) {
+        this.add.rectangle(f.x, f.y, ft.radius * 3, ft.radius * 3, C.COLOR_WALL, 1)
+          .setStrokeStyle(1, 0x222233, 1)
+          .setDepth(3);
+      }
+
       const glow = this.add.circle(f.x, f.y, ft.radius * 2.5, ft.glowColor, 0.12).setDepth(4);
       const circle = this.add.circle(f.x, f.y, ft.radius, ft.color, 0.85).setDepth(5);
 
       // Float animation
-      this.tweens.add({
-        targets: [circle, glow],
-        y: f.y - 4,
-        duration: 1200 + Math.random() * 600,
-        ease: 'Sine.easeInOut',
-        yoyo: true,
-        repeat: -1,
-      });
+      if (!ft.embedded) {
+        this.tweens.add({
+          targets: [circle, glow],
+          y: f.y - 4,
+          duration: this.fxRng.between(1200, 1800),
+          ease: 'Sine.easeInOut',
+          yoyo: true,
+          repeat: -1,
+        });
+      }
 
       // Glow pulse
       this.tweens.add({
@@ -350,10 +658,16 @@ export class GameScene extends Phaser.Scene {
     if (time - this.dustSpawnTimer < this.DUST_SPAWN_INTERVAL) return;
     this.dustSpawnTimer = time;
 
-    const ft = foodTypes['dust'];
-    const x = this.DUST_SPAWN_X_MIN + Math.random() * (this.DUST_SPAWN_X_MAX - this.DUST_SPAWN_X_MIN);
-    const y = this.DUST_SPAWN_Y_MIN + Math.random() * (this.DUST_SPAWN_Y_MAX - this.DUST_SPAWN_Y_MIN);
+    const area = this.stage.dustSpawnArea;
+    if (!area) return;
+    const x = this.spawnRng.between(area.x, area.x + area.w);
+    const y = this.spawnRng.between(area.y, area.y + area.h);
+    this.spawnFood(x, y, 'dust');
+  }
 
+  /** Spawn a collectible food item at runtime with a pop-in animation. */
+  private spawnFood(x: number, y: number, type: FoodTypeId) {
+    const ft = foodTypes[type];
     const glow = this.add.circle(x, y, ft.radius * 2.5, ft.glowColor, 0.12).setDepth(4);
     const circle = this.add.circle(x, y, ft.radius, ft.color, 0.85).setDepth(5);
 
@@ -372,7 +686,7 @@ export class GameScene extends Phaser.Scene {
     this.tweens.add({
       targets: [circle, glow],
       y: y - 4,
-      duration: 1200 + Math.random() * 600,
+      duration: this.fxRng.between(1200, 1800),
       ease: 'Sine.easeInOut',
       yoyo: true,
       repeat: -1,
@@ -395,7 +709,7 @@ export class GameScene extends Phaser.Scene {
 
     this.foodItemObjs.push({
       x, y,
-      type: 'dust',
+      type,
       graphics: circle,
       glow,
       collected: false,
@@ -404,20 +718,14 @@ export class GameScene extends Phaser.Scene {
   }
 
   private createGoals() {
-    for (const goal of Stage.goals) {
-      const color = goal.label === 'goal_near' ? C.COLOR_GOAL : C.COLOR_GOAL_FAR;
-
-      const gfx = this.add.graphics().setDepth(5);
-      gfx.fillStyle(color, 0.3);
-      gfx.fillRect(goal.x - goal.w / 2, goal.y - goal.h / 2, goal.w, goal.h);
-      gfx.lineStyle(2, color, 0.8);
-      gfx.strokeRect(goal.x - goal.w / 2, goal.y - goal.h / 2, goal.w, goal.h);
+    for (const goal of this.stage.goals) {
+      drawGoalArea(this.add.graphics().setDepth(5), goal);
 
       const stars = '★'.repeat(goal.stars);
       this.add
         .text(goal.x, goal.y - 8, goal.name, {
           fontSize: '16px',
-          color: goal.label === 'goal_near' ? '#ffd700' : '#ff8800',
+          color: goalTextColor(goal),
           fontStyle: 'bold',
         })
         .setOrigin(0.5)
@@ -426,7 +734,7 @@ export class GameScene extends Phaser.Scene {
       this.add
         .text(goal.x, goal.y + 12, stars, {
           fontSize: '14px',
-          color: goal.label === 'goal_near' ? '#ffd700' : '#ff8800',
+          color: goalTextColor(goal),
         })
         .setOrigin(0.5)
         .setDepth(6);
@@ -440,19 +748,28 @@ export class GameScene extends Phaser.Scene {
   }
 
   private createDeathZone() {
-    this.matter.add.rectangle(C.WORLD_WIDTH / 2, C.WORLD_HEIGHT + 200, C.WORLD_WIDTH + 500, 400, {
+    this.matter.add.rectangle(this.stage.width / 2, this.stage.height + 200, this.stage.width + 500, 400, {
       isStatic: true,
       isSensor: true,
       label: 'deathzone',
     });
   }
 
+  private createEnemies() {
+    for (const e of this.stage.enemySpawns) {
+      this.enemies.spawn(e);
+    }
+  }
+
   private createPlayer() {
     this.generatePlayerTexture('player', 1.0);
 
-    this.player = this.matter.add.sprite(800, 2900, 'player');
+    const spawn = this.stage.playerSpawn;
+    this.player = this.matter.add.sprite(spawn.x, spawn.y, 'player');
     this.player.setCircle(C.PLAYER_RADIUS);
-    this.player.setFriction(0.1);
+    this.player.setCollisionCategory(C.CATEGORY_PLAYER);
+    this.player.setFriction(this.playerFriction());
+    MatterLib.Body.setDensity(this.player.body as MatterJS.BodyType, C.PLAYER_DENSITY * this.stats.massMultiplier);
     this.player.setFrictionAir(0.02);
     this.player.setBounce(0.05);
     this.player.setDepth(20);
@@ -510,38 +827,29 @@ export class GameScene extends Phaser.Scene {
     this.keyD = this.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.D);
     this.keySpace = this.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.SPACE);
     this.keyR = this.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.R);
-
-    // Mouse click: fire/release grapple
+    this.keyE = this.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.E);
+    this.keyShift = this.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.SHIFT);
+    this.keyEsc = this.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.ESC);
+    this.keyP = this.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.P);
+    this.keyL = this.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.L);
+    this.keyH = this.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.H);
+
+    // Clicks and wheel are queued for the next tick (see sampleInput)
     this.input.on('pointerdown', (pointer: Phaser.Input.Pointer) => {
-      if (this.encyclopediaUI.isVisible()) return;
+      if (this.encyclopediaUI.isVisible() || this.playback) return;
 
       if (this.isDead) {
         this.restartGame();
         return;
       }
 
-      if (pointer.leftButtonDown()) {
-        if (!this.stats.canGrapple) return;
-
-        if (this.grappleState === 'attached') {
-          this.releaseGrapple();
-        } else {
-          const world = this.cameras.main.getWorldPoint(pointer.x, pointer.y);
-          this.fireGrapple(world.x, world.y);
-        }
-      }
-
-      if (pointer.rightButtonDown()) {
-        this.releaseGrapple();
-      }
+      if (pointer.leftButtonDown()) this.pendingClicks |= CLICK_PRIMARY;
+      if (pointer.rightButtonDown()) this.pendingClicks |= CLICK_SECONDARY;
     });
 
-    // Scroll: reel
     this.input.on('wheel', (_pointer: any, _go: any, _dx: number, deltaY: number) => {
-      if (this.grappleState === 'attached') {
-        if (deltaY < 0) this.reelIn(60);
-        else if (deltaY > 0) this.reelOut(60);
-      }
+      if (this.playback) return;
+      this.pendingWheel += Math.sign(deltaY);
     });
 
     // Disable context menu
@@ -569,12 +877,15 @@ export class GameScene extends Phaser.Scene {
         if (other.label === 'food') {
           this.handleFoodPickup(other);
         }
+        if (other.label === 'enemy') {
+          this.handleEnemyContact(other);
+        }
         if (other.label === 'goal_near' || other.label === 'goal_far') {
           this.handleVictory(other.label);
         }
         if (other.label === 'deathzone') {
           this.playerHP = 0;
-          this.die();
+          this.die('deathzone');
         }
       }
     });
@@ -602,10 +913,10 @@ export class GameScene extends Phaser.Scene {
     const grounded = this.groundContacts > 0;
     const force = grounded ? C.PLAYER_MOVE_FORCE : this.stats.airControl;
 
-    if (this.keyA.isDown || this.cursors.left.isDown) {
+    if (this.isHeld('left')) {
       this.player.applyForce(new Phaser.Math.Vector2(-force, 0));
     }
-    if (this.keyD.isDown || this.cursors.right.isDown) {
+    if (this.isHeld('right')) {
       this.player.applyForce(new Phaser.Math.Vector2(force, 0));
     }
 
@@ -622,7 +933,7 @@ export class GameScene extends Phaser.Scene {
     const grounded = this.groundContacts > 0;
 
     // Grapple release with space
-    if (Phaser.Input.Keyboard.JustDown(this.keySpace)) {
+    if (this.justPressed('jump')) {
       if (this.grappleState === 'attached') {
         const body = this.player.body as MatterJS.BodyType;
         this.player.applyForce(new Phaser.Math.Vector2(
@@ -637,7 +948,7 @@ export class GameScene extends Phaser.Scene {
     // Jump/charged jump logic
     if (!this.stats.canJump) return;
 
-    if (this.stats.canChargedJump && grounded && this.keySpace.isDown) {
+    if (this.stats.canChargedJump && grounded && this.isHeld('jump')) {
       // Start or continue charging
       if (!this.isChargingJump) {
         this.isChargingJump = true;
@@ -646,7 +957,7 @@ export class GameScene extends Phaser.Scene {
     }
 
     // Release charged jump
-    if (this.isChargingJump && !this.keySpace.isDown) {
+    if (this.isChargingJump && !this.isHeld('jump')) {
       const chargeTime = Math.min(time - this.jumpChargeStart, C.JUMP_CHARGE_MAX_MS);
       const chargeRatio = chargeTime / C.JUMP_CHARGE_MAX_MS;
       const multiplier = 1.0 + chargeRatio * C.JUMP_CHARGE_MULTIPLIER;
@@ -654,7 +965,7 @@ export class GameScene extends Phaser.Scene {
       const body = this.player.body as MatterJS.BodyType;
       MatterLib.Body.setVelocity(body, {
         x: body.velocity.x,
-        y: C.PLAYER_JUMP_VELOCITY * multiplier,
+        y: this.stats.jumpVelocity * multiplier,
       });
 
       this.isChargingJump = false;
@@ -663,11 +974,11 @@ export class GameScene extends Phaser.Scene {
     }
 
     // Regular jump (no charged jump ability or not charging)
-    if (!this.stats.canChargedJump && Phaser.Input.Keyboard.JustDown(this.keySpace) && grounded) {
+    if (!this.stats.canChargedJump && this.justPressed('jump') && grounded) {
       const body = this.player.body as MatterJS.BodyType;
       MatterLib.Body.setVelocity(body, {
         x: body.velocity.x,
-        y: C.PLAYER_JUMP_VELOCITY,
+        y: this.stats.jumpVelocity,
       });
     }
 
@@ -678,10 +989,76 @@ export class GameScene extends Phaser.Scene {
     }
   }
 
+  // ======================== Attack ========================
+
+  private handleAttackKey(time: number) {
+    if (!this.stats.canAttack) return;
+    if (!this.justPressed('attack')) return;
+    if (time - this.lastAttackTime < this.stats.attackCooldownMs) return;
+
+    this.performAttack(time);
+  }
+
+  /** Knock back every enemy inside the attack hitbox. Enemies are driven off, not killed. */
+  private performAttack(time: number) {
+    this.lastAttackTime = time;
+
+    const px = this.player.x;
+    const py = this.player.y;
+    const range = this.stats.attackRange;
+
+    // Hitbox visual
+    const ring = this.add.circle(px, py, range, C.COLOR_ATTACK, 0.25)
+      .setStrokeStyle(2, C.COLOR_ATTACK, 0.8)
+      .setDepth(19);
+    ring.setScale(0.6);
+    this.tweens.add({
+      targets: ring,
+      scaleX: 1,
+      scaleY: 1,
+      alpha: 0,
+      duration: 180,
+      ease: 'Power2',
+      onComplete: () => ring.destroy(),
+    });
+
+    for (const enemy of this.enemies.getEnemies()) {
+      const body = enemy.body;
+      const dx = body.position.x - px;
+      const dy = body.position.y - py;
+      const dist = Math.sqrt(dx * dx + dy * dy);
+      if (dist > range + (body.circleRadius ?? 0)) continue;
+
+      const nx = dist > 0 ? dx / dist : 1;
+      const ny = dist > 0 ? dy / dist : 0;
+      this.enemies.knockback(enemy, nx * C.ATTACK_KNOCKBACK, ny * C.ATTACK_KNOCKBACK - 3);
+
+      this.onAttackHit(enemy);
+    }
+  }
+
+  private onAttackHit(enemy: Enemy) {
+    // Driven-off enemies shed a piece of flesh while they have any left
+    if (this.enemies.shedFlesh(enemy)) {
+      this.spawnFood(enemy.body.position.x, enemy.body.position.y - 10, 'flesh');
+    }
+
+    // Predation: absorb HP on hit
+    const absorb = this.stats.hpOnHit;
+    if (absorb > 0) {
+      const prev = this.playerHP;
+      this.playerHP = Math.min(this.stats.maxHp, this.playerHP + absorb);
+      const healed = this.playerHP - prev;
+      if (healed > 0) {
+        this.spawnFloatingText(this.player.x, this.player.y - 30, `+${healed}`, '#44ff44');
+      }
+    }
+  }
+
   // ======================== Grapple ========================
 
   private findBestHook(aimX: number, aimY: number): HookPoint | null {
-    if (!this.stats.canGrapple) return null;
+    if (!this.grappleAllowed()) return null;
 
     const px = this.player.x;
     const py = this.player.y;
@@ -709,7 +1086,42 @@ export class GameScene extends Phaser.Scene {
     return bestHook;
   }
 
+  /** Grapple unlocked by evolution and not forbidden by a challenge rule. */
+  private grappleAllowed(): boolean {
+    return this.stats.canGrapple && !this.challenges.includes('no_grapple');
+  }
+
+  private isGrappleDisabled(): boolean {
+    return this.clock.now < this.grappleDisabledUntil;
+  }
+
+  /** Left click fires or releases the grapple, right click releases it. */
+  private handleClicks() {
+    const { clicks, pointerX, pointerY } = this.tickInput;
+    if (clicks & CLICK_PRIMARY && this.grappleAllowed()) {
+      if (this.grappleState === 'attached') {
+        this.releaseGrapple();
+      } else {
+        this.fireGrapple(pointerX, pointerY);
+      }
+    }
+    if (clicks & CLICK_SECONDARY) {
+      this.releaseGrapple();
+    }
+  }
+
+  /** Each wheel notch reels the rope in or out. */
+  private handleWheel() {
+    const { wheel } = this.tickInput;
+    if (this.grappleState !== 'attached') return;
+    for (let i = 0; i < Math.abs(wheel); i++) {
+      if (wheel < 0) this.reelIn(60);
+      else this.reelOut(60);
+    }
+  }
+
   private fireGrapple(worldX: number, worldY: number) {
+    if (this.isGrappleDisabled()) return;
     const best = this.findBestHook(worldX, worldY);
     if (best) this.attachGrapple(best);
   }
@@ -719,6 +1131,8 @@ export class GameScene extends Phaser.Scene {
     this.ropeLength = dist;
     this.grappleTarget = hook;
     this.grappleState = 'attached';
+    this.grappleAttachedAt = this.clock.now;
+    this.grapplesFired++;
 
     const body = this.player.body as MatterJS.BodyType;
 
@@ -734,6 +1148,26 @@ export class GameScene extends Phaser.Scene {
     MatterLib.Composite.add(this.matter.world.engine.world as any, this.grappleConstraint);
   }
 
+  /** A mimic bites once the player has hung from it for MIMIC_BITE_DELAY_MS. */
+  private checkMimicBite() {
+    const hook = this.grappleTarget;
+    if (!hook?.mimic) return;
+    if (this.clock.now - this.grappleAttachedAt >= C.MIMIC_BITE_DELAY_MS) this.mimicBite(hook);
+  }
+
+  /** A mimic hook reveals itself: bite, cut the rope and drop the player. */
+  private mimicBite(hook: HookPoint) {
+    this.releaseGrapple();
+    hook.revealedUntil = this.clock.now + C.MIMIC_REVEAL_MS;
+    if (!this.editorLevel && !this.playback) this.encyclopediaSystem.recordMimicEncounter();
+
+    const body = this.player.body as MatterJS.BodyType;
+    MatterLib.Body.setVelocity(body, { x: body.velocity.x * 0.3, y: 4 });
+
+    this.spawnFloatingText(hook.x, hook.y - 20, '擬態虫!', '#dd3344');
+    this.takeDamage(C.MIMIC_BITE_DAMAGE, 'mimic');
+  }
+
   private releaseGrapple() {
     if (this.grappleConstraint) {
       MatterLib.Composite.remove(this.matter.world.engine.world as any, this.grappleConstraint);
@@ -743,6 +1177,33 @@ export class GameScene extends Phaser.Scene {
     this.grappleState = 'idle';
   }
 
+  /** Sever the rope if a thread cutter touches the player-hook segment. */
+  private checkRopeCut() {
+    if (this.grappleState !== 'attached' || !this.grappleTarget) return;
+
+    const cutter = this.enemies.findRopeCutter(
+      this.player.x, this.player.y, this.grappleTarget.x, this.grappleTarget.y,
+    );
+    if (!cutter) return;
+
+    const cutX = cutter.body.position.x;
+    const cutY = cutter.body.position.y;
+    this.releaseGrapple();
+    this.grappleDisabledUntil = this.clock.now + C.GRAPPLE_CUT_DISABLE_MS;
+
+    // Snap effect at the cut point
+    const snap = this.add.circle(cutX, cutY, 6, C.COLOR_GRAPPLE_LINE, 0.9).setDepth(11);
+    this.tweens.add({
+      targets: snap,
+      scaleX: 3,
+      scaleY: 3,
+      alpha: 0,
+      duration: 250,
+      onComplete: () => snap.destroy(),
+    });
+    this.spawnFloatingText(cutX, cutY - 20, '糸切断!', '#cc88ff');
+  }
+
   private reelIn(amount: number) {
     if (!this.grappleConstraint) return;
     this.ropeLength = Math.max(C.MIN_ROPE_LENGTH, this.ropeLength - amount);
@@ -755,14 +1216,14 @@ export class GameScene extends Phaser.Scene {
     this.grappleConstraint.length = this.ropeLength;
   }
 
-  private handleGrappleReel(delta: number) {
+  private handleGrappleReel() {
     if (this.grappleState !== 'attached') return;
 
-    const amount = this.stats.reelSpeed * (delta / 16.67);
-    if (this.keyW.isDown || this.cursors.up.isDown) {
+    const amount = this.stats.reelSpeed * (C.PHYSICS_FRAME_MS / 16.67);
+    if (this.isHeld('up')) {
       this.reelIn(amount);
     }
-    if (this.keyS.isDown || this.cursors.down.isDown) {
+    if (this.isHeld('down')) {
       this.reelOut(amount);
     }
   }
@@ -786,13 +1247,11 @@ export class GameScene extends Phaser.Scene {
 
   private drawAimIndicator() {
     this.aimLine.clear();
-    if (!this.stats.canGrapple) return;
+    if (!this.grappleAllowed()) return;
     if (this.grappleState !== 'idle') return;
+    if (this.isGrappleDisabled()) return;
 
-    const pointer = this.input.activePointer;
-    const worldPt = this.cameras.main.getWorldPoint(pointer.x, pointer.y);
-
-    const target = this.findBestHook(worldPt.x, worldPt.y);
+    const target = this.findBestHook(this.tickInput.pointerX, this.tickInput.pointerY);
     if (target) {
       this.aimLine.lineStyle(1, C.COLOR_GRAPPLE_LINE, 0.25);
       this.aimLine.beginPath();
@@ -809,9 +1268,18 @@ export class GameScene extends Phaser.Scene {
     const px = this.player.x;
     const py = this.player.y;
     const range = this.stats.grappleRange;
-    const grappleUnlocked = this.stats.canGrapple;
+    const grappleUnlocked = this.grappleAllowed();
+
+    const now = this.clock.now;
 
     for (const hook of this.hookPoints) {
+      if (hook.mimic && now < hook.revealedUntil) {
+        hook.graphics.setFillStyle(C.COLOR_MIMIC_REVEALED, 1);
+        hook.graphics.setScale(1.4 + Math.sin(now / 50) * 0.15);
+        hook.glow.setAlpha(0.4);
+        continue;
+      }
+
       if (!grappleUnlocked) {
         // Hide hooks until grapple is unlocked
         hook.graphics.setAlpha(0.15);
@@ -821,11 +1289,11 @@ export class GameScene extends Phaser.Scene {
 
       const dist = Phaser.Math.Distance.Between(px, py, hook.x, hook.y);
       if (dist <= range) {
-        hook.graphics.setFillStyle(C.COLOR_HOOK_IN_RANGE, 1);
+        hook.graphics.setFillStyle(hook.mimic ? C.COLOR_MIMIC_IN_RANGE : C.COLOR_HOOK_IN_RANGE, 1);
         hook.graphics.setScale(1.3);
         hook.glow.setAlpha(0.3);
       } else {
-        hook.graphics.setFillStyle(C.COLOR_HOOK, 0.5);
+        hook.graphics.setFillStyle(hook.mimic ? C.COLOR_MIMIC : C.COLOR_HOOK, 0.5);
         hook.graphics.setScale(1);
         hook.glow.setAlpha(0.1);
       }
@@ -842,6 +1310,7 @@ export class GameScene extends Phaser.Scene {
         sensorBody.position.x, sensorBody.position.y, fi.x, fi.y
       );
       if (dist > 40) continue;
+      if (!this.feeding.canEat(fi.type)) continue;
 
       fi.collected = true;
 
@@ -864,9 +1333,10 @@ export class GameScene extends Phaser.Scene {
 
       // Add points
       this.feeding.consume(fi.type, ft.points);
+      this.runIntake[fi.type] += ft.points;
 
       // Show floating text
-      const color = fi.type === 'dust' ? '#ccccbb' : '#ddaa44';
+      const color = `#${ft.color.toString(16).padStart(6, '0')}`;
       this.spawnFloatingText(this.player.x, this.player.y - 20, `+${ft.points} ${ft.name}`, color);
 
       break;
@@ -875,6 +1345,10 @@ export class GameScene extends Phaser.Scene {
 
   private onEvolutionGained(nodeId: EvolutionNodeId) {
     const node = evolutionTree[nodeId];
+    this.markReplay('evolution', node.name);
+    this.timer.evolution(node.name, this.clock.tick);
+    this.runEvolutions.push({ node: nodeId, tick: this.clock.tick });
+    this.runEvent({ type: 'evolution', node: nodeId });
 
     // Screen flash
     this.cameras.main.flash(300, 255, 255, 200, false);
@@ -888,34 +1362,32 @@ export class GameScene extends Phaser.Scene {
     );
 
     // Brief pause
-    this.matter.world.pause();
-    this.time.delayedCall(300, () => {
-      if (!this.isDead) {
-        this.matter.world.resume();
-      }
-    });
+    this.hitstopTicks = Math.round(this.EVOLUTION_HITSTOP_MS / C.PHYSICS_FRAME_MS);
 
     // Apply evolution effects
-    this.applyEvolutionEffects(nodeId);
-
-    // Update cursor if grapple gained
-    if (nodeId === 'traction_1') {
-      this.input.setDefaultCursor('crosshair');
-    }
+    this.applyEvolutionEffects();
 
     // Update controls text
     this.updateControlsText();
   }
 
-  private applyEvolutionEffects(nodeId: EvolutionNodeId) {
-    if (nodeId === 'stretch_1' || nodeId === 'stretch_2') {
-      this.applyStretchEvolution();
-    }
+  /** Sync the player body and controls with the resolved evolution stats. */
+  private applyEvolutionEffects() {
+    this.applyStretchEvolution();
 
-    if (nodeId === 'sticky_1') {
-      const body = this.player.body as MatterJS.BodyType;
-      body.friction = 0.95;
+    const body = this.player.body as MatterJS.BodyType;
+    body.friction = this.playerFriction();
+    MatterLib.Body.setDensity(body, C.PLAYER_DENSITY * this.stats.massMultiplier);
+
+    // Raised max HP comes with the extra HP filled in
+    const maxHp = this.stats.maxHp;
+    if (maxHp > this.currentMaxHp) {
+      this.playerHP += maxHp - this.currentMaxHp;
     }
+    this.playerHP = Math.min(this.playerHP, maxHp);
+    this.currentMaxHp = maxHp;
+
+    this.input.setDefaultCursor(this.grappleAllowed() ? 'crosshair' : 'default');
   }
 
   private applyStretchEvolution() {
@@ -947,9 +1419,10 @@ export class GameScene extends Phaser.Scene {
     const newBody = MatterLib.Bodies.rectangle(oldX, newY, w, h, {
       chamfer: { radius: chamfer },
       label: 'player',
-      friction: this.stats.friction,
+      friction: this.playerFriction(),
       frictionAir: 0.02,
       restitution: 0.05,
+      collisionFilter: { category: C.CATEGORY_PLAYER, mask: 0xffffffff, group: 0 },
     });
 
     this.player.setExistingBody(newBody as any);
@@ -976,10 +1449,111 @@ export class GameScene extends Phaser.Scene {
     }
   }
 
+  // ======================== Biome ========================
+
+  /** Scale gravity on the player by the current biome's multiplier. */
+  private applyBiomeGravity() {
+    const extra = this.currentBiome.gravityMultiplier - 1;
+    if (extra === 0) return;
+
+    const body = this.player.body as MatterJS.BodyType;
+    const gravity = this.matter.world.localWorld.gravity;
+    const scale = gravity.scale ?? 0.001;
+    this.player.applyForce(new Phaser.Math.Vector2(0, body.mass * gravity.y * scale * extra));
+  }
+
+  /**
+   * The player's friction in the current biome. Platforms alone can't make
+   * a biome grippier than the player's body, so the biome scales it.
+   */
+  private playerFriction(): number {
+    return this.stats.friction * (this.currentBiome.platformFriction / C.DEFAULT_PLATFORM_FRICTION);
+  }
+
+  /** Track which biome the player is in and announce changes. */
+  private updateBiome() {
+    // Connector gaps between sections keep the biome the player came from
+    const biome = biomeAt(this.stage, this.player.x, this.player.y, this.currentBiome);
+    if (biome === this.currentBiome) return;
+
+    this.currentBiome = biome;
+    (this.player.body as MatterJS.BodyType).friction = this.playerFriction();
+    this.biomeText.setText(this.currentBiome.name).setColor(this.currentBiome.palette.label);
+
+    const banner = this.add
+      .text(C.GAME_WIDTH / 2, C.GAME_HEIGHT / 3, `${this.currentBiome.name}\n${this.currentBiome.nameEn}`, {
+        fontSize: '26px',
+        color: this.currentBiome.palette.label,
+        fontStyle: 'bold',
+        align: 'center',
+        stroke: '#000000',
+        strokeThickness: 4,
+      })
+      .setOrigin(0.5)
+      .setScrollFactor(0)
+      .setDepth(95);
+
+    this.tweens.add({
+      targets: banner,
+      alpha: 0,
+      delay: 1200,
+      duration: 800,
+      onComplete: () => banner.destroy(),
+    });
+  }
+
+  /** The first entry into each section is a split, compared against any ghosts. */
+  private trackSection() {
+    const section = findSectionAt(this.stage, this.player.x, this.player.y);
+    if (!section) return;
+    const index = this.stage.sections.indexOf(section);
+    if (index === this.sectionIndex) return;
+    this.sectionIndex = index;
+    this.furthestSection = Math.max(this.furthestSection, index);
+
+    this.timer.enterSection(section.id, section.name, this.clock.tick);
+    const deltas = this.ghosts.enterSection(index, this.clock.tick);
+    if (deltas.length > 0) this.showSplitDeltas(deltas);
+  }
+
+  private showSplitDeltas(deltas: SplitDelta[]) {
+    const lines = deltas.map((d) => {
+      const goal = this.stage.goals.find((g) => g.label === d.goal);
+      const seconds = (d.deltaTicks * C.PHYSICS_FRAME_MS) / 1000;
+      return `${goal?.name ?? d.goal}  ${seconds <= 0 ? '-' : '+'}${Math.abs(seconds).toFixed(2)}s`;
+    });
+    const ahead = deltas.every((d) => d.deltaTicks <= 0);
+
+    const text = this.add
+      .text(C.GAME_WIDTH / 2, 70, lines.join('\n'), {
+        fontSize: '18px',
+        color: ahead ? '#44ff88' : '#ff6655',
+        fontStyle: 'bold',
+        align: 'center',
+        stroke: '#000000',
+        strokeThickness: 4,
+      })
+      .setOrigin(0.5, 0)
+      .setScrollFactor(0)
+      .setDepth(95);
+    this.tweens.add({
+      targets: text,
+      alpha: 0,
+      delay: 2000,
+      duration: 600,
+      onComplete: () => text.destroy(),
+    });
+  }
+
   // ======================== Health & Damage ========================
 
   private trackFalling() {
     const grounded = this.groundContacts > 0;
+    const height = this.stage.height - this.player.y;
+    if (Math.floor(height) > Math.floor(this.runPeakHeight)) {
+      this.runEvent({ type: 'height', meters: Math.floor(height) });
+    }
+    this.runPeakHeight = Math.max(this.runPeakHeight, height);
 
     if (!grounded) {
       if (this.player.y < this.peakY) {
@@ -1016,7 +1590,17 @@ export class GameScene extends Phaser.Scene {
     }
 
     damage = Math.round(damage * this.stats.fallDamageMultiplier);
+    this.logHeatPoint('fall', damage, null);
+    this.runEvent({ type: 'fall', damage });
+
+    this.dropFragments(damage);
+    this.takeDamage(damage, 'fall');
+  }
+
+  /** Shared HP path for every damage source: hit feedback and death check. */
+  private takeDamage(damage: number, cause: DeathCause) {
     this.playerHP = Math.max(0, this.playerHP - damage);
+    this.markReplay('damage', `-${damage}`);
 
     this.cameras.main.shake(80 + damage * 2, 0.003 + damage * 0.0002);
 
@@ -1028,16 +1612,158 @@ export class GameScene extends Phaser.Scene {
     this.spawnFloatingText(this.player.x, this.player.y - 30, `-${damage}`, '#ff4444');
 
     if (this.playerHP <= 0) {
-      this.die();
+      this.die(cause);
+    }
+  }
+
+  /** Add the player's position to the fall/death heatmap. */
+  private logHeatPoint(kind: HeatPoint['kind'], damage: number, cause: DeathCause | null) {
+    if (this.editorLevel || this.playback) return;
+    this.encyclopediaSystem.recordHeatPoint({
+      levelKey: this.levelKey,
+      layoutHash: this.stageHash,
+      kind,
+      x: Math.round(this.player.x),
+      y: Math.round(this.player.y),
+      damage,
+      cause,
+      at: Date.now(),
+    });
+    if (this.heatmapGfx) this.drawHeatmap();
+  }
+
+  // ======================== Achievements ========================
+
+  /** Check achievements against a run event. Play-tests and replays unlock nothing. */
+  private runEvent(event: RunEvent) {
+    if (this.editorLevel || this.playback) return;
+    this.achievements.handle(event);
+  }
+
+  private onAchievementUnlocked(achievement: AchievementDef) {
+    if (!this.encyclopediaSystem.recordAchievement(achievement.id)) return;
+    this.toastQueue.push(achievement);
+    if (this.toastQueue.length === 1) this.showNextToast();
+  }
+
+  /** Unlock toasts slide in at the top right one after another. */
+  private showNextToast() {
+    const achievement = this.toastQueue[0];
+    if (!achievement) return;
+
+    const x = C.GAME_WIDTH - 10;
+    const y = 60;
+    const title = this.add
+      .text(0, 0, `実績解除: ${achievement.name}`, { fontSize: '14px', color: '#ffd700', fontStyle: 'bold' })
+      .setOrigin(1, 0);
+    const description = this.add
+      .text(0, 20, achievement.description, { fontSize: '11px', color: '#dddddd' })
+      .setOrigin(1, 0);
+    const width = Math.max(title.width, description.width) + 16;
+    const bg = this.add.graphics();
+    bg.fillStyle(0x000000, 0.75);
+    bg.fillRect(-width + 8, -6, width, 44);
+    bg.lineStyle(1, 0xffd700, 0.8);
+    bg.strokeRect(-width + 8, -6, width, 44);
+
+    const toast = this.add
+      .container(x + width, y, [bg, title, description])
+      .setScrollFactor(0)
+      .setDepth(120);
+    this.tweens.add({
+      targets: toast,
+      x,
+      duration: 300,
+      ease: 'Cubic.easeOut',
+    });
+    this.tweens.add({
+      targets: toast,
+      alpha: 0,
+      delay: 3000,
+      duration: 500,
+      onComplete: () => {
+        toast.destroy();
+        this.toastQueue.shift();
+        this.showNextToast();
+      },
+    });
+  }
+
+  private toggleHeatmap() {
+    if (this.heatmapGfx) {
+      this.heatmapGfx.destroy();
+      this.heatmapGfx = null;
+    } else {
+      this.heatmapGfx = this.add.graphics().setDepth(8);
+      this.drawHeatmap();
     }
   }
 
+  /** Falls and deaths of every earlier run on this layout. */
+  private drawHeatmap() {
+    if (!this.heatmapGfx) return;
+    this.heatmapGfx.clear();
+    drawHeatPoints(this.heatmapGfx, this.encyclopediaSystem.getHeatPoints(this.levelKey, this.stageHash), 60);
+  }
+
+  private handleEnemyContact(enemyBody: MatterJS.BodyType) {
+    if (this.isDead) return;
+    const enemy = this.enemies.getByBody(enemyBody);
+    if (!enemy) return;
+    if (this.clock.now - this.lastContactDamageTime < C.CONTACT_INVULNERABLE_MS) return;
+    this.lastContactDamageTime = this.clock.now;
+
+    // Bounce the player away from the enemy
+    const body = this.player.body as MatterJS.BodyType;
+    const dir = Math.sign(body.position.x - enemy.body.position.x) || 1;
+    MatterLib.Body.setVelocity(body, { x: dir * C.CONTACT_KNOCKBACK, y: -C.CONTACT_KNOCKBACK * 0.6 });
+
+    this.takeDamage(this.enemies.getContactDamage(enemy), 'enemy');
+  }
+
+  private onEnemyLevelUp(enemy: Enemy) {
+    const level = enemyTypes[enemy.type].levels[enemy.level];
+    const color = `#${level.color.toString(16).padStart(6, '0')}`;
+    this.spawnFloatingText(enemy.body.position.x, enemy.body.position.y - 30, `${level.name}!`, color);
+  }
+
+  /** Scatter fragments of the dominant food: one per FRAGMENT_DAMAGE_PER_DROP damage. */
+  private dropFragments(damage: number) {
+    const count = Math.floor(damage / C.FRAGMENT_DAMAGE_PER_DROP);
+    const type = this.feeding.getDominantFood();
+    if (count === 0 || type === null) return;
+
+    const lost = this.feeding.drain(type, count * C.FRAGMENT_INTAKE_LOSS);
+    const dropped = Math.ceil(lost / C.FRAGMENT_INTAKE_LOSS);
+    if (dropped === 0) return;
+
+    const refund = Math.max(1, Math.round(C.FRAGMENT_INTAKE_LOSS * C.FRAGMENT_REFUND_RATIO));
+    this.fragments.scatter(this.player.x, this.player.y - 10, type, dropped, refund);
+  }
+
+  private collectFragments() {
+    const reach = C.PLAYER_RADIUS * this.currentStretchFactor;
+    for (const frag of this.fragments.takeNear(this.player.x, this.player.y, reach)) {
+      this.handleFragmentPickup(frag);
+    }
+  }
+
+  private handleFragmentPickup(frag: Fragment) {
+    const ft = foodTypes[frag.type];
+    this.feeding.consume(frag.type, frag.refund);
+
+    const color = `#${ft.color.toString(16).padStart(6, '0')}`;
+    this.spawnFloatingText(this.player.x, this.player.y - 20, `+${frag.refund} ${ft.name}`, color);
+  }
+
   private handleRecoveryPickup(sensorBody: MatterJS.BodyType) {
+    if (this.challenges.includes('no_recovery')) return;
     for (const rp of this.recoveryPoints) {
       if (rp.used) continue;
       const dist = Phaser.Math.Distance.Between(sensorBody.position.x, sensorBody.position.y, rp.x, rp.y);
       if (dist < 40) {
         rp.used = true;
+        this.recoveriesUsed++;
         rp.graphics.setAlpha(0.15);
 
         const prev = this.playerHP;
@@ -1069,11 +1795,16 @@ export class GameScene extends Phaser.Scene {
 
   // ======================== Game State ========================
 
-  private die() {
+  private die(cause: DeathCause) {
     if (this.isDead) return;
     this.isDead = true;
+    this.logHeatPoint('death', 0, cause);
     this.releaseGrapple();
-    this.encyclopediaSystem.recordRun(this.feeding.getActiveEvolutions(), false, 0);
+    this.finishRecording();
+    // Play-tests and replays don't count toward the encyclopedia
+    if (!this.editorLevel && !this.playback) {
+      this.encyclopediaSystem.recordRun(this.runSummary(null, cause));
+    }
 
     this.player.setTint(0xff0000);
     this.cameras.main.shake(300, 0.02);
@@ -1098,6 +1829,8 @@ export class GameScene extends Phaser.Scene {
       .setOrigin(0.5)
       .setDepth(100)
       .setScrollFactor(0);
+
+    this.addSeedResultText(C.GAME_HEIGHT / 2 + 40);
   }
 
   private handleVictory(goalLabel: string) {
@@ -1105,7 +1838,25 @@ export class GameScene extends Phaser.Scene {
     this.isDead = true;
     this.goalReached = goalLabel;
     this.releaseGrapple();
-    this.encyclopediaSystem.recordRun(this.feeding.getActiveEvolutions(), true, this.playerHP);
+    this.finishRecording();
+    const goalName = this.stage.goals.find((g) => g.label === goalLabel)?.name ?? goalLabel;
+    this.timer.finish(goalName, this.clock.tick);
+    let newBest = false;
+    let fastest = false;
+    let newBadge = false;
+    if (!this.editorLevel && !this.playback) {
+      if (this.challenges.length > 0 && this.challengesHeld()) {
+        newBadge = this.encyclopediaSystem.recordBadge(this.challenges, goalLabel);
+      }
+      this.encyclopediaSystem.recordRun(this.runSummary(goalLabel, null));
+      this.runEvent({
+        type: 'clear', goal: goalLabel, ticks: this.clock.tick, hp: this.playerHP, maxHp: this.stats.maxHp,
+      });
+      fastest = this.encyclopediaSystem.recordGoalClear(this.levelKey, goalLabel, goalName, this.clock.tick, this.playerHP);
+      newBest = this.encyclopediaSystem.recordGhost(
+        this.ghosts.toRecord(this.levelKey, this.stageHash, goalLabel, this.clock.tick),
+      );
+    }
 
     const isNear = goalLabel === 'goal_near';
     const title = isNear ? 'CLEAR!' : 'TRUE CLEAR!';
@@ -1150,10 +1901,184 @@ export class GameScene extends Phaser.Scene {
       .setOrigin(0.5)
       .setDepth(100)
       .setScrollFactor(0);
+
+    this.addSeedResultText(C.GAME_HEIGHT / 2 + 95);
+    this.addSplitsResultText(goalLabel, fastest);
+
+    if (newBadge) {
+      this.add
+        .text(C.GAME_WIDTH / 2, C.GAME_HEIGHT / 2 - 110, `バッジ獲得: ${challengeName(this.challenges)} (${goalName})`, {
+          fontSize: '18px',
+          color: '#ff88ff',
+          fontStyle: 'bold',
+          stroke: '#000000',
+          strokeThickness: 4,
+        })
+        .setOrigin(0.5)
+        .setDepth(100)
+        .setScrollFactor(0);
+    }
+
+    if (newBest) {
+      this.add
+        .text(C.GAME_WIDTH / 2, C.GAME_HEIGHT / 2 + 125, '自己ベスト! ゴーストを更新しました', {
+          fontSize: '14px',
+          color: '#88ff88',
+        })
+        .setOrigin(0.5)
+        .setDepth(100)
+        .setScrollFactor(0);
+    }
+  }
+
+  /**
+   * Re-check the challenge rules against what the run did before crediting
+   * a badge. The rules are enforced during play, so this only fails if
+   * enforcement was bypassed.
+   */
+  private challengesHeld(): boolean {
+    const facts: ChallengeFacts = {
+      foodTypesEaten: Object.values(this.runIntake).filter((points) => points > 0).length,
+      evolutions: this.runEvolutions.length,
+      recoveriesUsed: this.recoveriesUsed,
+      grapplesFired: this.grapplesFired,
+    };
+    return this.challenges.every((id) => challengeRules[id].held(facts));
+  }
+
+  private runSummary(goal: string | null, deathCause: DeathCause | null): RunSummary {
+    return {
+      levelKey: this.levelKey,
+      ticks: this.clock.tick,
+      evolutions: [...this.runEvolutions],
+      goal,
+      deathCause,
+      remainingHp: this.playerHP,
+      intake: { ...this.runIntake },
+      peakHeight: this.runPeakHeight,
+      furthestBiome: this.stage.sections[this.furthestSection].biome,
+    };
+  }
+
+  /** Split list on the clear screen, with the goal's best time. */
+  private addSplitsResultText(goalLabel: string, fastest: boolean) {
+    const lines = this.timer.getSplits().map((split) => {
+      const mark = split.kind === 'evolution' ? '◆' : split.kind === 'goal' ? '★' : '▸';
+      return `${formatTicks(split.tick).padStart(8)}  ${mark} ${split.label}`;
+    });
+    const record = this.encyclopediaSystem.getGoalRecord(this.levelKey, goalLabel);
+    if (fastest) {
+      lines.push('', '最速タイム更新!');
+    } else if (record && !this.editorLevel && !this.playback) {
+      lines.push('', `最速: ${formatTicks(record.bestTicks)}  クリア ${record.clears}回`);
+    }
+    lines.push('', 'L: LiveSplit書き出し');
+
+    this.add
+      .text(20, 90, ['SPLITS', ...lines].join('\n'), {
+        fontSize: '13px',
+        fontFamily: 'monospace',
+        color: '#ffffff',
+        backgroundColor: '#000000aa',
+        padding: { x: 8, y: 6 },
+      })
+      .setDepth(100)
+      .setScrollFactor(0);
   }
 
+  /** Download the cleared run's splits as a LiveSplit splits file. */
+  private exportSplits() {
+    const name = this.level?.id ?? this.rng.seed.toLowerCase();
+    const category = this.stage.goals.find((g) => g.label === this.goalReached)?.name ?? this.goalReached;
+    downloadText(`phyloclimb-splits-${name}.lss`, this.timer.toLiveSplit(category), 'application/xml');
+  }
+
+  /** Seed line on the results screen so the run can be shared. */
+  private addSeedResultText(y: number) {
+    const back = this.editorLevel ? 'エディタに戻る' : '同じシードで再挑戦';
+    const replay = this.playback ? '' : ' | P: リプレイ';
+    this.add
+      .text(C.GAME_WIDTH / 2, y, `SEED: ${this.rng.seed}  (Esc: ${back}${replay})`, {
+        fontSize: '14px',
+        color: '#aaccff',
+      })
+      .setOrigin(0.5)
+      .setDepth(100)
+      .setScrollFactor(0);
+
+    if (this.playback) {
+      const matched = this.fingerprint() === this.playback.recording.fingerprint;
+      this.add
+        .text(C.GAME_WIDTH / 2, y + 22, matched ? 'リプレイ: 記録と一致' : 'リプレイ: 記録と不一致', {
+          fontSize: '14px',
+          color: matched ? '#88ff88' : '#ff6666',
+        })
+        .setOrigin(0.5)
+        .setDepth(100)
+        .setScrollFactor(0);
+    }
+  }
+
+  /** Put a marker on the replay timeline at the current tick. */
+  private markReplay(kind: ReplayMarker['kind'], label: string) {
+    if (!this.playback) this.recorder.mark(kind, label);
+  }
+
+  /** Seal the input recording with the state the run ended in and keep it as the latest replay. */
+  private finishRecording() {
+    if (this.playback) return;
+    this.recorder.finish(this.fingerprint());
+    // Runs too long to replay aren't finished and aren't kept
+    if (this.recorder.isFinished()) saveLastReplay(this.recorder.getRecording());
+  }
+
+  /** Open the replay viewer on the run that just ended. */
+  private watchReplay() {
+    const replay = this.playback ? this.playback.recording : this.recorder.getRecording();
+    if (replay.fingerprint === null) return;
+    startReplay(this.scene, replay, this.level, this.editorLevel);
+  }
+
+  /** Start the same replay over, keeping the viewer's controls (used to seek backwards). */
+  private restartReplay() {
+    const data: GameSceneData = {
+      level: this.level ?? undefined,
+      editorLevel: this.editorLevel ?? undefined,
+      replay: this.playback!.recording,
+      replayControl: this.replayControl!,
+    };
+    this.scene.restart(data);
+  }
+
+  /** Start a fresh run with a new random seed (on the same level file, if any). */
   private restartGame() {
-    this.scene.restart();
+    this.scene.stop('ReplayViewerScene');
+    const data: GameSceneData = {
+      level: this.level ?? undefined,
+      editorLevel: this.editorLevel ?? undefined,
+      ghost: this.showGhost,
+      challenges: this.challenges,
+    };
+    this.scene.restart(data);
+  }
+
+  /** End a play-test and reopen the level editor where it left off. */
+  private returnToEditor() {
+    this.scene.stop('ReplayViewerScene');
+    const data: LevelEditorSceneData = { level: this.editorLevel!, seed: this.rng.seed, resume: true };
+    this.scene.start('LevelEditorScene', data);
+  }
+
+  /** Back to seed entry, prefilled with this run's seed and level. */
+  private openRunSetup() {
+    this.scene.stop('ReplayViewerScene');
+    const data: RunSetupSceneData = {
+      seed: this.rng.seed,
+      level: this.level ?? undefined,
+      ghost: this.showGhost,
+      challenges: this.challenges,
+    };
+    this.scene.start('RunSetupScene', data);
   }
 
   // ======================== HUD ========================
@@ -1173,10 +2098,73 @@ export class GameScene extends Phaser.Scene {
       .setDepth(91);
 
     this.feedingHUD = this.add.graphics().setScrollFactor(0).setDepth(90);
+    this.attackHUD = this.add.graphics().setScrollFactor(0).setDepth(90);
+    this.biomeText = this.add
+      .text(C.GAME_WIDTH - 45, 12, this.currentBiome.name, {
+        fontSize: '13px',
+        color: this.currentBiome.palette.label,
+        fontStyle: 'bold',
+        stroke: '#000000',
+        strokeThickness: 3,
+      })
+      .setOrigin(1, 0)
+      .setScrollFactor(0)
+      .setDepth(91);
+    this.grappleStatusText = this.add
+      .text(C.GAME_WIDTH / 2, 20, '', {
+        fontSize: '14px',
+        color: '#cc88ff',
+        fontStyle: 'bold',
+        stroke: '#000000',
+        strokeThickness: 3,
+      })
+      .setOrigin(0.5)
+      .setScrollFactor(0)
+      .setDepth(91);
     this.feedingText = this.add
       .text(15, 38, '', { fontSize: '11px', color: '#ffffff' })
       .setScrollFactor(0)
       .setDepth(91);
+    this.timerText = this.add
+      .text(C.GAME_WIDTH - 45, 32, '', {
+        fontSize: '14px',
+        fontFamily: 'monospace',
+        color: '#ffffff',
+        stroke: '#000000',
+        strokeThickness: 3,
+      })
+      .setOrigin(1, 0)
+      .setScrollFactor(0)
+      .setDepth(91);
+
+    this.add
+      .text(10, C.GAME_HEIGHT - 28, `SEED: ${this.rng.seed}`, { fontSize: '11px', color: '#aaccff' })
+      .setAlpha(0.6)
+      .setOrigin(0, 1)
+      .setScrollFactor(0)
+      .setDepth(91);
+    if (this.challenges.length > 0) {
+      this.add
+        .text(10, C.GAME_HEIGHT - 42, `縛り: ${challengeName(this.challenges)}`, { fontSize: '11px', color: '#ff88ff' })
+        .setAlpha(0.8)
+        .setOrigin(0, 1)
+        .setScrollFactor(0)
+        .setDepth(91);
+    }
+
+    if (this.playback) {
+      this.add
+        .text(C.GAME_WIDTH / 2, 44, '▶ REPLAY', {
+          fontSize: '16px',
+          color: '#ff6666',
+          fontStyle: 'bold',
+          stroke: '#000000',
+          strokeThickness: 3,
+        })
+        .setOrigin(0.5)
+        .setScrollFactor(0)
+        .setDepth(91);
+    }
 
     this.controlsText = this.add
       .text(C.GAME_WIDTH / 2, C.GAME_HEIGHT - 12, '', {
@@ -1196,10 +2184,15 @@ export class GameScene extends Phaser.Scene {
     if (this.stats.canJump) {
       parts.push(this.stats.canChargedJump ? 'Space: Jump (hold to charge)' : 'Space: Jump');
     }
-    if (this.stats.canGrapple) {
+    if (this.grappleAllowed()) {
       parts.push('Click: Grapple | W/S: Reel');
     }
-    parts.push('Tab: 図鑑 | R: Restart');
+    if (this.stats.canAttack) {
+      parts.push('E/Shift: Attack');
+    }
+    parts.push(this.editorLevel
+      ? 'Tab: 図鑑 | H: ヒートマップ | R: Restart | Esc: Editor'
+      : 'Tab: 図鑑 | H: ヒートマップ | R: Restart | Esc: Seed');
     this.controlsText.setText(parts.join(' | '));
   }
 
@@ -1226,95 +2219,90 @@ export class GameScene extends Phaser.Scene {
     this.hpBar.strokeRect(barX, barY, barW, barH);
 
     this.hpText.setText(`HP ${this.playerHP}/${this.stats.maxHp}`);
+    this.timerText.setText(formatTicks(this.clock.tick));
 
-    // Feeding HUD
+    // Feeding HUD: one gauge per food type
     this.feedingHUD.clear();
     const fhX = 15;
-    const fhY = 38;
     const fhW = 200;
     const fhH = 10;
-    const maxPts = 50;
-
-    // Dust gauge
-    const dustPts = this.feeding.getPoints('dust');
-    const dustRatio = Math.min(1, dustPts / maxPts);
-    this.feedingHUD.fillStyle(0x000000, 0.4);
-    this.feedingHUD.fillRect(fhX + 16, fhY, fhW - 16, fhH);
-    this.feedingHUD.fillStyle(C.COLOR_DUST, 0.7);
-    this.feedingHUD.fillRect(fhX + 16, fhY, (fhW - 16) * dustRatio, fhH);
-    this.feedingHUD.lineStyle(1, 0xffffff, 0.2);
-    this.feedingHUD.strokeRect(fhX + 16, fhY, fhW - 16, fhH);
-
-    // Dust threshold markers
-    const thresholds = [10, 25, 50];
-    for (const t of thresholds) {
-      const tx = fhX + 16 + (fhW - 16) * (t / maxPts);
-      this.feedingHUD.lineStyle(1, 0xffffff, 0.4);
-      this.feedingHUD.beginPath();
-      this.feedingHUD.moveTo(tx, fhY);
-      this.feedingHUD.lineTo(tx, fhY + fhH);
-      this.feedingHUD.strokePath();
-    }
-
-    // Dust evolution indicators
-    const dustNodes: EvolutionNodeId[] = ['stretch_1', 'stretch_2', 'sticky_1'];
-    let indicatorX = fhX + fhW + 4;
-    for (const nid of dustNodes) {
-      const active = this.feeding.isActive(nid);
-      const node = evolutionTree[nid];
-      if (active) {
-        this.feedingHUD.fillStyle(node.color, 0.9);
-        this.feedingHUD.fillCircle(indicatorX, fhY + fhH / 2, 4);
-      } else {
-        this.feedingHUD.lineStyle(1, 0x555555, 0.5);
-        this.feedingHUD.strokeCircle(indicatorX, fhY + fhH / 2, 4);
+    const rowGap = 4;
+    const labels: string[] = [];
+
+    ALL_FOOD_TYPE_IDS.forEach((foodTypeId, row) => {
+      const ft = foodTypes[foodTypeId];
+      const gy = 38 + row * (fhH + rowGap);
+      const branchNodes = getBranchNodes(foodTypeId);
+      const maxPts = Math.max(1, ...branchNodes.map((nid) => evolutionTree[nid].threshold));
+      const pts = this.feeding.getPoints(foodTypeId);
+      const ratio = Math.min(1, pts / maxPts);
+
+      this.feedingHUD.fillStyle(0x000000, 0.4);
+      this.feedingHUD.fillRect(fhX + 16, gy, fhW - 16, fhH);
+      this.feedingHUD.fillStyle(ft.color, 0.7);
+      this.feedingHUD.fillRect(fhX + 16, gy, (fhW - 16) * ratio, fhH);
+      this.feedingHUD.lineStyle(1, 0xffffff, 0.2);
+      this.feedingHUD.strokeRect(fhX + 16, gy, fhW - 16, fhH);
+
+      // Threshold markers
+      for (const nid of branchNodes) {
+        const tx = fhX + 16 + (fhW - 16) * (evolutionTree[nid].threshold / maxPts);
+        this.feedingHUD.lineStyle(1, 0xffffff, 0.4);
+        this.feedingHUD.beginPath();
+        this.feedingHUD.moveTo(tx, gy);
+        this.feedingHUD.lineTo(tx, gy + fhH);
+        this.feedingHUD.strokePath();
       }
-      indicatorX += 12;
-    }
-
-    // Sap gauge
-    const sapY = fhY + fhH + 4;
-    const sapPts = this.feeding.getPoints('sap');
-    const sapRatio = Math.min(1, sapPts / maxPts);
-    this.feedingHUD.fillStyle(0x000000, 0.4);
-    this.feedingHUD.fillRect(fhX + 16, sapY, fhW - 16, fhH);
-    this.feedingHUD.fillStyle(C.COLOR_SAP, 0.7);
-    this.feedingHUD.fillRect(fhX + 16, sapY, (fhW - 16) * sapRatio, fhH);
-    this.feedingHUD.lineStyle(1, 0xffffff, 0.2);
-    this.feedingHUD.strokeRect(fhX + 16, sapY, fhW - 16, fhH);
-
-    // Sap threshold markers
-    for (const t of thresholds) {
-      const tx = fhX + 16 + (fhW - 16) * (t / maxPts);
-      this.feedingHUD.lineStyle(1, 0xffffff, 0.4);
-      this.feedingHUD.beginPath();
-      this.feedingHUD.moveTo(tx, sapY);
-      this.feedingHUD.lineTo(tx, sapY + fhH);
-      this.feedingHUD.strokePath();
-    }
-
-    // Sap evolution indicators
-    const sapNodes: EvolutionNodeId[] = ['jump_1', 'jump_2', 'traction_1'];
-    indicatorX = fhX + fhW + 4;
-    for (const nid of sapNodes) {
-      const active = this.feeding.isActive(nid);
-      const node = evolutionTree[nid];
-      if (active) {
-        this.feedingHUD.fillStyle(node.color, 0.9);
-        this.feedingHUD.fillCircle(indicatorX, sapY + fhH / 2, 4);
-      } else {
-        this.feedingHUD.lineStyle(1, 0x555555, 0.5);
-        this.feedingHUD.strokeCircle(indicatorX, sapY + fhH / 2, 4);
+
+      // Evolution indicators
+      let indicatorX = fhX + fhW + 4;
+      for (const nid of branchNodes) {
+        const node = evolutionTree[nid];
+        if (this.feeding.isActive(nid)) {
+          this.feedingHUD.fillStyle(node.color, 0.9);
+          this.feedingHUD.fillCircle(indicatorX, gy + fhH / 2, 4);
+        } else {
+          this.feedingHUD.lineStyle(1, 0x555555, 0.5);
+          this.feedingHUD.strokeCircle(indicatorX, gy + fhH / 2, 4);
+        }
+        indicatorX += 12;
       }
-      indicatorX += 12;
-    }
+
+      labels.push(`${ft.name} ${pts}`);
+    });
 
     // Feeding text labels
-    this.feedingText.setText(`塵 ${dustPts}\n液 ${sapPts}`);
+    this.feedingText.setText(labels.join('\n'));
+
+    // Attack cooldown indicator (next to HP bar)
+    this.attackHUD.clear();
+    if (this.stats.canAttack) {
+      const ax = barX + barW + 16;
+      const ay = barY + barH / 2;
+      const cooldown = this.stats.attackCooldownMs;
+      const ready = Math.min(1, (this.clock.now - this.lastAttackTime) / cooldown);
+
+      this.attackHUD.fillStyle(0x000000, 0.5);
+      this.attackHUD.fillCircle(ax, ay, 8);
+      this.attackHUD.fillStyle(C.COLOR_ATTACK, ready >= 1 ? 0.9 : 0.5);
+      this.attackHUD.slice(ax, ay, 8, -Math.PI / 2, -Math.PI / 2 + Math.PI * 2 * ready, false);
+      this.attackHUD.fillPath();
+      this.attackHUD.lineStyle(1, 0xffffff, ready >= 1 ? 0.8 : 0.3);
+      this.attackHUD.strokeCircle(ax, ay, 8);
+    }
+
+    // Grapple lockout cue
+    if (this.grappleAllowed() && this.isGrappleDisabled()) {
+      const remaining = (this.grappleDisabledUntil - this.clock.now) / 1000;
+      this.grappleStatusText.setText(`糸 切断中 ${remaining.toFixed(1)}s`);
+      this.grappleStatusText.setAlpha(0.6 + Math.abs(Math.sin(this.clock.now / 120)) * 0.4);
+    } else {
+      this.grappleStatusText.setText('');
+    }
 
     // Charge indicator
     if (this.isChargingJump) {
-      const chargeTime = Math.min(this.time.now - this.jumpChargeStart, C.JUMP_CHARGE_MAX_MS);
+      const chargeTime = Math.min(this.clock.now - this.jumpChargeStart, C.JUMP_CHARGE_MAX_MS);
       const chargeRatio = chargeTime / C.JUMP_CHARGE_MAX_MS;
       const chargeBarW = 40;
       const chargeBarH = 6;
@@ -1338,8 +2326,8 @@ export class GameScene extends Phaser.Scene {
     this.heightBar.fillStyle(0x000000, 0.4);
     this.heightBar.fillRect(hx - 1, hy - 1, hw + 2, hh + 2);
 
-    const height = C.WORLD_HEIGHT - this.player.y;
-    const hRatio = Math.max(0, Math.min(1, height / C.WORLD_HEIGHT));
+    const height = this.stage.height - this.player.y;
+    const hRatio = Math.max(0, Math.min(1, height / this.stage.height));
 
     this.heightBar.fillStyle(0x4488ff, 0.6);
     this.heightBar.fillRect(hx, hy + hh * (1 - hRatio), hw, hh * hRatio);
@@ -0,0 +1,650 @@
+import Phaser from 'phaser';
+import * as C from '../constants';
+import { ALL_FOOD_TYPE_IDS, FoodTypeId, foodTypes } from '../data/foodTypes';
+import { evolutionTree } from '../data/evolutionTree';
+import { GoalDef, PointDef } from '../data/stageData';
+import { LevelFile, levelToStage, validateLevel } from '../systems/LevelLoader';
+import { ReachabilityChecker, StageReport } from '../systems/ReachabilityChecker';
+import {
+  biomeAt, drawBackground, drawFoodItem, drawGoalArea, drawHookPoint, drawPlatform, drawRecoveryPoint,
+  drawWalls, goalTextColor,
+} from '../ui/StageRenderer';
+import { downloadText } from '../ui/fileDialogs';
+import { GameSceneData } from './GameScene';
+import { RunSetupSceneData } from './RunSetupScene';
+
+const GRID_SIZE = 20;
+const HISTORY_LIMIT = 100;
+const POINT_HIT_RADIUS = 12;
+const HANDLE_SIZE = 10;
+const PAN_SPEED = 12;
+
+type EditorTool = 'platform' | 'hook' | 'food' | 'recovery' | 'goal';
+type EditorObjectKind = EditorTool | 'spawn';
+
+interface Selection {
+  kind: EditorObjectKind;
+  index: number;                // unused for 'spawn'
+}
+
+interface DragState {
+  mode: 'move' | 'resize' | 'pan';
+  startX: number;               // world position for move/resize, screen position for pan
+  startY: number;
+  origin: { x: number; y: number; w: number; h: number };
+  before: string;               // level snapshot for undo
+}
+
+const TOOLS: { tool: EditorTool; key: string; label: string }[] = [
+  { tool: 'platform', key: '1', label: '足場' },
+  { tool: 'hook', key: '2', label: 'フック' },
+  { tool: 'food', key: '3', label: '食物' },
+  { tool: 'recovery', key: '4', label: '回復' },
+  { tool: 'goal', key: '5', label: 'ゴール' },
+];
+
+/** Data passed to LevelEditorScene. */
+export interface LevelEditorSceneData {
+  level: LevelFile;
+  seed?: string;                // carried into play-tests
+  resume?: boolean;             // back from a play-test: keep history and camera
+}
+
+/**
+ * Level editor. Renders a level the way GameScene does and edits it in
+ * place: place, drag, resize and delete objects on a snapping grid, with
+ * undo/redo, JSON export and play-testing from the cursor. The
+ * reachability check (V) marks what a player can get to.
+ */
+export class LevelEditorScene extends Phaser.Scene {
+  private level!: LevelFile;
+  private seed: string | undefined;
+  private undoStack: string[] = [];
+  private redoStack: string[] = [];
+  private resumed = false;
+  private savedScroll = { x: 0, y: 0 };
+
+  private tool: EditorTool = 'platform';
+  private foodType: FoodTypeId = 'dust';
+  private snapEnabled = true;
+  private showReach = false;
+  private reach: { snapshot: string; report: StageReport | null } | null = null;  // last check, by level
+  private selection: Selection | null = null;
+  private drag: DragState | null = null;
+
+  private backgroundGfx!: Phaser.GameObjects.Graphics;
+  private gridGfx!: Phaser.GameObjects.Graphics;
+  private stageGfx!: Phaser.GameObjects.Graphics;
+  private overlayGfx!: Phaser.GameObjects.Graphics;
+  private labels: Phaser.GameObjects.Text[] = [];
+  private statusText!: Phaser.GameObjects.Text;
+  private issuesText!: Phaser.GameObjects.Text;
+  private reachText!: Phaser.GameObjects.Text;
+  private keys!: Record<'up' | 'down' | 'left' | 'right' | 'w' | 'a' | 's' | 'd', Phaser.Input.Keyboard.Key>;
+
+  constructor() {
+    super({ key: 'LevelEditorScene' });
+  }
+
+  init(data: LevelEditorSceneData) {
+    this.level = structuredClone(data.level);
+    this.seed = data.seed;
+    this.resumed = data.resume === true;
+    if (!this.resumed) {
+      this.undoStack = [];
+      this.redoStack = [];
+      this.selection = null;
+    }
+    this.drag = null;
+  }
+
+  create() {
+    this.backgroundGfx = this.add.graphics().setDepth(-10);
+    this.gridGfx = this.add.graphics().setDepth(-5);
+    this.stageGfx = this.add.graphics().setDepth(1);
+    this.overlayGfx = this.add.graphics().setDepth(50);
+    this.labels = [];
+    this.reach = null;
+
+    this.statusText = this.add
+      .text(10, 10, '', {
+        fontSize: '12px',
+        color: '#ffffff',
+        backgroundColor: '#000000aa',
+        padding: { x: 6, y: 4 },
+      })
+      .setScrollFactor(0)
+      .setDepth(100);
+    this.issuesText = this.add
+      .text(C.GAME_WIDTH - 10, 10, '', {
+        fontSize: '11px',
+        color: '#ff8888',
+        backgroundColor: '#000000aa',
+        padding: { x: 6, y: 4 },
+        align: 'right',
+      })
+      .setOrigin(1, 0)
+      .setScrollFactor(0)
+      .setDepth(100);
+    this.reachText = this.add
+      .text(10, 90, '', {
+        fontSize: '11px',
+        color: '#aaffaa',
+        backgroundColor: '#000000aa',
+        padding: { x: 6, y: 4 },
+      })
+      .setScrollFactor(0)
+      .setDepth(100)
+      .setVisible(false);
+    this.add
+      .text(C.GAME_WIDTH / 2, C.GAME_HEIGHT - 8,
+        '1-5: ツール | クリック: 配置/選択 | ドラッグ: 移動 | 角: リサイズ | Del: 削除 | T: 食物種 | M: 擬態 | L: ゴール種'
+        + '\nG: グリッド | V: 到達判定 | Ctrl+Z/Y: 元に戻す/やり直し | E: 書き出し | P: カーソル位置から試遊 | 右ドラッグ/WASD/ホイール: 移動 | Esc: 戻る', {
+          fontSize: '10px',
+          color: '#ffffff',
+          align: 'center',
+          backgroundColor: '#000000aa',
+          padding: { x: 6, y: 3 },
+        })
+      .setOrigin(0.5, 1)
+      .setScrollFactor(0)
+      .setDepth(100);
+
+    const cam = this.cameras.main;
+    cam.setBounds(-200, -200, this.level.width + 400, this.level.height + 400);
+    if (this.resumed) {
+      cam.setScroll(this.savedScroll.x, this.savedScroll.y);
+    } else {
+      cam.centerOn(this.level.playerSpawn.x, this.level.playerSpawn.y);
+    }
+
+    this.setupInput();
+    this.drawBackgroundAndGrid();
+    this.redraw();
+  }
+
+  update() {
+    const cam = this.cameras.main;
+    if (this.keys.left.isDown || this.keys.a.isDown) cam.scrollX -= PAN_SPEED;
+    if (this.keys.right.isDown || this.keys.d.isDown) cam.scrollX += PAN_SPEED;
+    if (this.keys.up.isDown || this.keys.w.isDown) cam.scrollY -= PAN_SPEED;
+    if (this.keys.down.isDown || this.keys.s.isDown) cam.scrollY += PAN_SPEED;
+  }
+
+  // ======================== Input ========================
+
+  private setupInput() {
+    const kb = this.input.keyboard!;
+    const K = Phaser.Input.Keyboard.KeyCodes;
+    this.keys = {
+      up: kb.addKey(K.UP), down: kb.addKey(K.DOWN), left: kb.addKey(K.LEFT), right: kb.addKey(K.RIGHT),
+      w: kb.addKey(K.W), a: kb.addKey(K.A), s: kb.addKey(K.S), d: kb.addKey(K.D),
+    };
+    kb.addCapture([K.BACKSPACE, K.DELETE]);
+    kb.on('keydown', (event: KeyboardEvent) => this.handleKey(event));
+
+    this.input.mouse?.disableContextMenu();
+    this.input.on('pointerdown', (pointer: Phaser.Input.Pointer) => this.onPointerDown(pointer));
+    this.input.on('pointermove', (pointer: Phaser.Input.Pointer) => this.onPointerMove(pointer));
+    this.input.on('pointerup', () => this.onPointerUp());
+    this.input.on('wheel', (_p: Phaser.Input.Pointer, _o: unknown, dx: number, dy: number) => {
+      this.cameras.main.scrollX += dx * 0.5;
+      this.cameras.main.scrollY += dy * 0.5;
+    });
+  }
+
+  private handleKey(event: KeyboardEvent) {
+    const ctrl = event.ctrlKey || event.metaKey;
+    const key = event.key.toLowerCase();
+
+    if (ctrl && key === 'z') {
+      event.preventDefault();
+      if (event.shiftKey) this.redo(); else this.undo();
+      return;
+    }
+    if (ctrl && key === 'y') {
+      event.preventDefault();
+      this.redo();
+      return;
+    }
+    if (ctrl) return;
+
+    const tool = TOOLS.find((t) => t.key === key);
+    if (tool) {
+      this.tool = tool.tool;
+    } else if (key === 'delete' || key === 'backspace') {
+      this.deleteSelection();
+    } else if (key === 't') {
+      this.cycleFoodType();
+    } else if (key === 'm') {
+      this.toggleMimic();
+    } else if (key === 'l') {
+      this.toggleGoalLabel();
+    } else if (key === 'g') {
+      this.snapEnabled = !this.snapEnabled;
+      this.drawBackgroundAndGrid();
+    } else if (key === 'v') {
+      this.showReach = !this.showReach;
+    } else if (key === 'e') {
+      this.exportLevel();
+    } else if (key === 'p') {
+      this.playtest();
+      return;
+    } else if (key === 'escape') {
+      const data: RunSetupSceneData = { seed: this.seed, level: this.level };
+      this.scene.start('RunSetupScene', data);
+      return;
+    }
+    this.redraw();
+  }
+
+  private onPointerDown(pointer: Phaser.Input.Pointer) {
+    const world = this.cameras.main.getWorldPoint(pointer.x, pointer.y);
+
+    if (pointer.rightButtonDown() || pointer.middleButtonDown()) {
+      const cam = this.cameras.main;
+      this.drag = {
+        mode: 'pan', startX: pointer.x, startY: pointer.y,
+        origin: { x: cam.scrollX, y: cam.scrollY, w: 0, h: 0 }, before: '',
+      };
+      return;
+    }
+
+    const before = this.snapshot();
+
+    // Resize handle of the selected rectangle
+    const rect = this.selectedRect();
+    if (rect && Math.abs(world.x - (rect.x + rect.w / 2)) <= HANDLE_SIZE
+      && Math.abs(world.y - (rect.y + rect.h / 2)) <= HANDLE_SIZE) {
+      this.drag = { mode: 'resize', startX: world.x, startY: world.y, origin: { ...rect }, before };
+      return;
+    }
+
+    let hit = this.hitTest(world.x, world.y);
+    if (!hit) {
+      hit = this.place(world.x, world.y);
+    }
+    this.selection = hit;
+    const target = this.objectAt(hit);
+    this.drag = {
+      mode: 'move', startX: world.x, startY: world.y,
+      origin: { x: target.x, y: target.y, w: 0, h: 0 }, before,
+    };
+    this.redraw();
+  }
+
+  private onPointerMove(pointer: Phaser.Input.Pointer) {
+    if (!this.drag) return;
+
+    if (this.drag.mode === 'pan') {
+      const cam = this.cameras.main;
+      cam.setScroll(
+        this.drag.origin.x - (pointer.x - this.drag.startX),
+        this.drag.origin.y - (pointer.y - this.drag.startY),
+      );
+      return;
+    }
+    if (!this.selection) return;
+
+    const world = this.cameras.main.getWorldPoint(pointer.x, pointer.y);
+    const dx = world.x - this.drag.startX;
+    const dy = world.y - this.drag.startY;
+    const target = this.objectAt(this.selection);
+
+    if (this.drag.mode === 'move') {
+      target.x = this.snap(this.drag.origin.x + dx);
+      target.y = this.snap(this.drag.origin.y + dy);
+    } else {
+      // Resize from the bottom-right corner, keeping the top-left fixed
+      const rect = target as GoalDef;
+      const { x, y, w, h } = this.drag.origin;
+      const left = x - w / 2;
+      const top = y - h / 2;
+      const minSize = this.snapEnabled ? GRID_SIZE : 4;
+      const newW = Math.max(minSize, this.snap(left + w + dx) - left);
+      const newH = Math.max(minSize, this.snap(top + h + dy) - top);
+      rect.w = newW;
+      rect.h = newH;
+      rect.x = left + newW / 2;
+      rect.y = top + newH / 2;
+    }
+    this.redraw();
+  }
+
+  private onPointerUp() {
+    const edited = this.drag !== null && this.drag.mode !== 'pan';
+    if (edited) this.commit(this.drag!.before);
+    this.drag = null;
+    // Reachability is skipped while dragging: bring it up to date
+    if (edited && this.showReach) this.redraw();
+    this.savedScroll = { x: this.cameras.main.scrollX, y: this.cameras.main.scrollY };
+  }
+
+  // ======================== Editing ========================
+
+  /** Add a new object for the current tool at (x, y). */
+  private place(x: number, y: number): Selection {
+    const px = this.snap(x);
+    const py = this.snap(y);
+    const level = this.level;
+
+    switch (this.tool) {
+      case 'platform':
+        level.platforms.push({ x: px, y: py, w: 120, h: 16 });
+        return { kind: 'platform', index: level.platforms.length - 1 };
+      case 'hook':
+        level.hookPoints.push({ x: px, y: py });
+        return { kind: 'hook', index: level.hookPoints.length - 1 };
+      case 'food':
+        level.foodItems.push({ x: px, y: py, type: this.foodType });
+        return { kind: 'food', index: level.foodItems.length - 1 };
+      case 'recovery':
+        level.recoveryPoints.push({ x: px, y: py });
+        return { kind: 'recovery', index: level.recoveryPoints.length - 1 };
+      case 'goal': {
+        // Goal labels must be unique: the second goal placed is the far one
+        const far = level.goals.some((g) => g.label === 'goal_near');
+        level.goals.push({
+          x: px, y: py, w: 120, h: 60, label: far ? 'goal_far' : 'goal_near', name: 'GOAL', stars: far ? 3 : 2,
+        });
+        return { kind: 'goal', index: level.goals.length - 1 };
+      }
+    }
+  }
+
+  private deleteSelection() {
+    const sel = this.selection;
+    if (!sel || sel.kind === 'spawn') return;
+
+    const before = this.snapshot();
+    this.listOf(sel.kind).splice(sel.index, 1);
+    this.selection = null;
+    this.commit(before);
+  }
+
+  /** Switch the food type for new food, and for the selected food item. */
+  private cycleFoodType() {
+    const i = ALL_FOOD_TYPE_IDS.indexOf(this.foodType);
+    this.foodType = ALL_FOOD_TYPE_IDS[(i + 1) % ALL_FOOD_TYPE_IDS.length];
+
+    if (this.selection?.kind === 'food') {
+      const before = this.snapshot();
+      this.level.foodItems[this.selection.index].type = this.foodType;
+      this.commit(before);
+    }
+  }
+
+  private toggleMimic() {
+    if (this.selection?.kind !== 'hook') return;
+    const before = this.snapshot();
+    const hook = this.level.hookPoints[this.selection.index];
+    if (hook.mimic) {
+      delete hook.mimic;
+    } else {
+      hook.mimic = true;
+    }
+    this.commit(before);
+  }
+
+  /** Flip the selected goal between the near (★★) and far (★★★) goal. */
+  private toggleGoalLabel() {
+    if (this.selection?.kind !== 'goal') return;
+    const before = this.snapshot();
+    const goal = this.level.goals[this.selection.index];
+    const near = goal.label !== 'goal_near';
+    goal.label = near ? 'goal_near' : 'goal_far';
+    goal.stars = near ? 2 : 3;
+    this.commit(before);
+  }
+
+  // ======================== History ========================
+
+  private snapshot(): string {
+    return JSON.stringify(this.level);
+  }
+
+  /** Record `before` as an undo step if the level changed since. */
+  private commit(before: string) {
+    if (before === this.snapshot()) return;
+    this.undoStack.push(before);
+    if (this.undoStack.length > HISTORY_LIMIT) this.undoStack.shift();
+    this.redoStack = [];
+  }
+
+  private undo() {
+    const prev = this.undoStack.pop();
+    if (prev === undefined) return;
+    this.redoStack.push(this.snapshot());
+    this.restore(prev);
+  }
+
+  private redo() {
+    const next = this.redoStack.pop();
+    if (next === undefined) return;
+    this.undoStack.push(this.snapshot());
+    this.restore(next);
+  }
+
+  private restore(snapshot: string) {
+    this.level = JSON.parse(snapshot) as LevelFile;
+    this.selection = null;
+    this.redraw();
+  }
+
+  // ======================== Export & Play-test ========================
+
+  private exportLevel() {
+    downloadText(`${this.level.id}.json`, JSON.stringify(this.level, null, 2));
+  }
+
+  /** Start GameScene on this level with the player placed at the cursor. */
+  private playtest() {
+    const pointer = this.input.activePointer;
+    const world = this.cameras.main.getWorldPoint(pointer.x, pointer.y);
+    const level = structuredClone(this.level);
+    level.playerSpawn = {
+      x: Phaser.Math.Clamp(world.x, C.PLAYER_RADIUS, level.width - C.PLAYER_RADIUS),
+      y: Phaser.Math.Clamp(world.y, C.PLAYER_RADIUS, level.height - C.PLAYER_RADIUS),
+    };
+
+    this.savedScroll = { x: this.cameras.main.scrollX, y: this.cameras.main.scrollY };
+    const data: GameSceneData = { seed: this.seed, level, editorLevel: this.level };
+    this.scene.start('GameScene', data);
+  }
+
+  // ======================== Lookup ========================
+
+  private snap(v: number): number {
+    return this.snapEnabled ? Math.round(v / GRID_SIZE) * GRID_SIZE : Math.round(v);
+  }
+
+  private listOf(kind: EditorTool): PointDef[] {
+    switch (kind) {
+      case 'platform': return this.level.platforms;
+      case 'hook': return this.level.hookPoints;
+      case 'food': return this.level.foodItems;
+      case 'recovery': return this.level.recoveryPoints;
+      case 'goal': return this.level.goals;
+    }
+  }
+
+  private objectAt(sel: Selection): PointDef {
+    return sel.kind === 'spawn' ? this.level.playerSpawn : this.listOf(sel.kind)[sel.index];
+  }
+
+  /** The selected platform or goal, or null for point objects. */
+  private selectedRect(): { x: number; y: number; w: number; h: number } | null {
+    const sel = this.selection;
+    if (!sel || (sel.kind !== 'platform' && sel.kind !== 'goal')) return null;
+    return sel.kind === 'platform' ? this.level.platforms[sel.index] : this.level.goals[sel.index];
+  }
+
+  /** Topmost object under (x, y): points first, then goals, then platforms. */
+  private hitTest(x: number, y: number): Selection | null {
+    const near = (p: PointDef) => Phaser.Math.Distance.Between(x, y, p.x, p.y) <= POINT_HIT_RADIUS;
+    const inside = (r: { x: number; y: number; w: number; h: number }) =>
+      Math.abs(x - r.x) <= r.w / 2 && Math.abs(y - r.y) <= Math.max(r.h / 2, 4);
+
+    if (Phaser.Math.Distance.Between(x, y, this.level.playerSpawn.x, this.level.playerSpawn.y) <= C.PLAYER_RADIUS) {
+      return { kind: 'spawn', index: 0 };
+    }
+    const pointKinds: EditorTool[] = ['hook', 'food', 'recovery'];
+    for (const kind of pointKinds) {
+      const list = this.listOf(kind);
+      for (let i = list.length - 1; i >= 0; i--) {
+        if (near(list[i])) return { kind, index: i };
+      }
+    }
+    for (let i = this.level.goals.length - 1; i >= 0; i--) {
+      if (inside(this.level.goals[i])) return { kind: 'goal', index: i };
+    }
+    for (let i = this.level.platforms.length - 1; i >= 0; i--) {
+      if (inside(this.level.platforms[i])) return { kind: 'platform', index: i };
+    }
+    return null;
+  }
+
+  // ======================== Drawing ========================
+
+  private drawBackgroundAndGrid() {
+    const stage = levelToStage(this.level);
+    this.backgroundGfx.clear();
+    drawBackground(this.backgroundGfx, stage);
+
+    this.gridGfx.clear();
+    if (!this.snapEnabled) return;
+    this.gridGfx.lineStyle(1, 0xffffff, 0.06);
+    for (let x = 0; x <= this.level.width; x += GRID_SIZE) {
+      this.gridGfx.lineBetween(x, 0, x, this.level.height);
+    }
+    for (let y = 0; y <= this.level.height; y += GRID_SIZE) {
+      this.gridGfx.lineBetween(0, y, this.level.width, y);
+    }
+  }
+
+  private redraw() {
+    const stage = levelToStage(this.level);
+    const gfx = this.stageGfx;
+    gfx.clear();
+
+    drawWalls(gfx, stage.walls);
+    for (const p of stage.platforms) drawPlatform(gfx, p, biomeAt(stage, p.x, p.y));
+    for (const g of stage.goals) drawGoalArea(gfx, g);
+    for (const r of stage.recoveryPoints) drawRecoveryPoint(gfx, r);
+    for (const f of stage.foodItems) drawFoodItem(gfx, f);
+    for (const h of stage.hookPoints) drawHookPoint(gfx, h);
+
+    // Player spawn
+    const spawn = stage.playerSpawn;
+    gfx.lineStyle(2, C.COLOR_PLAYER, 0.9);
+    gfx.strokeCircle(spawn.x, spawn.y, C.PLAYER_RADIUS);
+
+    this.syncGoalLabels(stage.goals);
+    this.drawReachability();
+    this.drawSelection();
+    this.updateStatus();
+  }
+
+  /** Name and stars over each goal. Text objects are only created when goals are added or removed. */
+  private syncGoalLabels(goals: GoalDef[]) {
+    if (this.labels.length !== goals.length) {
+      for (const label of this.labels) label.destroy();
+      this.labels = goals.map(() =>
+        this.add.text(0, 0, '', { fontSize: '14px', fontStyle: 'bold', align: 'center' }).setOrigin(0.5).setDepth(6)
+      );
+    }
+    goals.forEach((g, i) => {
+      const label = this.labels[i];
+      const text = `${g.name}\n${'★'.repeat(g.stars)}`;
+      const color = goalTextColor(g);
+      if (label.text !== text) label.setText(text);
+      if (label.style.color !== color) label.setColor(color);
+      label.setPosition(g.x, g.y);
+    });
+  }
+
+  /**
+   * Outline what the reachability check can (green) and can't (red) get to.
+   * The check is rerun only when the level changed, and not mid-drag.
+   */
+  private drawReachability() {
+    this.reachText.setVisible(this.showReach);
+    if (!this.showReach) {
+      this.reachText.setText('');
+      return;
+    }
+    if (this.drag && this.drag.mode !== 'pan') return;
+
+    const snapshot = this.snapshot();
+    if (this.reach?.snapshot !== snapshot) {
+      const report = validateLevel(this.level).length === 0
+        ? new ReachabilityChecker(levelToStage(this.level)).analyze()
+        : null;
+      this.reach = { snapshot, report };
+    }
+    const { report } = this.reach;
+    if (!report) {
+      this.reachText.setText('到達判定: レベルにエラーがあります');
+      return;
+    }
+
+    const gfx = this.stageGfx;
+    const mark = (reached: boolean, x: number, y: number, w: number, h: number) => {
+      gfx.lineStyle(2, reached ? 0x44ff44 : 0xff4444, 0.9);
+      gfx.strokeRect(x - w / 2 - 2, y - h / 2 - 2, w + 4, h + 4);
+    };
+    this.level.platforms.forEach((p, i) => mark(report.reach.platforms[i], p.x, p.y, p.w, p.h));
+    this.level.goals.forEach((g, i) => mark(report.reach.goals[i], g.x, g.y, g.w, g.h));
+    this.level.hookPoints.forEach((h, i) => mark(report.reach.hooks[i], h.x, h.y, 20, 20));
+    this.level.foodItems.forEach((f, i) => mark(report.reach.foodItems[i], f.x, f.y, 16, 16));
+
+    this.reachText.setText(this.reachSummary(report));
+  }
+
+  private reachSummary(report: StageReport): string {
+    const evolutions = report.evolutions.map((id) => evolutionTree[id].name).join(' ') || 'なし';
+    const lines = [`到達判定  獲得可能な進化: ${evolutions}`];
+    for (const section of report.sections) {
+      const requires = section.requires.map((id) => evolutionTree[id].name).join(' ');
+      const missing = section.missing.length > 0
+        ? `  不足: ${section.missing.map((id) => evolutionTree[id].name).join(' ')}`
+        : '';
+      lines.push(`${section.reached ? '○' : '×'} ${section.name}${requires ? ` (${requires})` : ''}${missing}`);
+    }
+    for (const goal of report.unreachableGoals) lines.push(`× ${goal.name} に届きません`);
+    return lines.join('\n');
+  }
+
+  private drawSelection() {
+    this.overlayGfx.clear();
+    if (!this.selection) return;
+
+    this.overlayGfx.lineStyle(2, 0xffffff, 0.9);
+    const rect = this.selectedRect();
+    if (rect) {
+      this.overlayGfx.strokeRect(rect.x - rect.w / 2, rect.y - rect.h / 2, rect.w, rect.h);
+      this.overlayGfx.fillStyle(0xffffff, 1);
+      this.overlayGfx.fillRect(
+        rect.x + rect.w / 2 - HANDLE_SIZE / 2, rect.y + rect.h / 2 - HANDLE_SIZE / 2, HANDLE_SIZE, HANDLE_SIZE,
+      );
+    } else {
+      const p = this.objectAt(this.selection);
+      this.overlayGfx.strokeCircle(p.x, p.y, POINT_HIT_RADIUS + 4);
+    }
+  }
+
+  private updateStatus() {
+    const toolLabels = TOOLS.map((t) => (t.tool === this.tool ? `[${t.key}:${t.label}]` : `${t.key}:${t.label}`));
+    this.statusText.setText([
+      `${this.level.name} (${this.level.width}x${this.level.height})`,
+      toolLabels.join(' '),
+      `食物: ${foodTypes[this.foodType].name}  グリッド: ${this.snapEnabled ? `${GRID_SIZE}px` : 'オフ'}`,
+      `履歴: ${this.undoStack.length} / やり直し: ${this.redoStack.length}`,
+    ].join('\n'));
+
+    const issues = validateLevel(this.level);
+    const lines = issues.slice(0, 6).map((i) => `${i.path}: ${i.message}`);
+    if (issues.length > lines.length) lines.push(`…他 ${issues.length - lines.length} 件`);
+    this.issuesText.setText(lines.join('\n')).setVisible(issues.length > 0);
+  }
+}
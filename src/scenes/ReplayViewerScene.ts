@@ -0,0 +1,210 @@
+import Phaser from 'phaser';
+import * as C from '../constants';
+import { InputRecording } from '../systems/InputRecorder';
+import { LevelFile } from '../systems/LevelLoader';
+import { ReplayControl, serializeReplay } from '../systems/Replay';
+import { downloadText } from '../ui/fileDialogs';
+import { GameSceneData } from './GameScene';
+
+const SPEEDS = [0.25, 0.5, 1, 2, 4];
+const SKIP_MS = 5000;
+const BAR_X = 150;
+const BAR_W = C.GAME_WIDTH - 300;
+const BAR_Y = C.GAME_HEIGHT - 40;
+const BAR_H = 10;
+const PANEL_H = 64;
+
+/** Data passed to ReplayViewerScene. */
+export interface ReplayViewerSceneData {
+  replay: InputRecording;
+  control: ReplayControl;
+}
+
+/**
+ * Replay a recorded run: GameScene plays the inputs back while this
+ * overlay drives it through a shared ReplayControl.
+ */
+export function startReplay(
+  scenes: Phaser.Scenes.ScenePlugin,
+  replay: InputRecording,
+  level: LevelFile | null,
+  editorLevel: LevelFile | null = null,
+): void {
+  const control = new ReplayControl();
+  const gameData: GameSceneData = {
+    level: level ?? undefined,
+    editorLevel: editorLevel ?? undefined,
+    replay,
+    replayControl: control,
+  };
+  const viewerData: ReplayViewerSceneData = { replay, control };
+  scenes.start('GameScene', gameData);
+  scenes.launch('ReplayViewerScene', viewerData);
+}
+
+/**
+ * Timeline overlay for replays: play/pause, playback speed and a scrubber
+ * with evolution (green) and damage (red) markers. Seeking backwards
+ * re-simulates the run from the start, so it may take a moment on long runs.
+ */
+export class ReplayViewerScene extends Phaser.Scene {
+  private replay!: InputRecording;
+  private control!: ReplayControl;
+  private scrubbing = false;
+
+  private barGfx!: Phaser.GameObjects.Graphics;
+  private playText!: Phaser.GameObjects.Text;
+  private speedText!: Phaser.GameObjects.Text;
+  private timeText!: Phaser.GameObjects.Text;
+  private markerText!: Phaser.GameObjects.Text;
+
+  constructor() {
+    super({ key: 'ReplayViewerScene' });
+  }
+
+  init(data: ReplayViewerSceneData) {
+    this.replay = data.replay;
+    this.control = data.control;
+    this.scrubbing = false;
+  }
+
+  create() {
+    const panel = this.add.graphics();
+    panel.fillStyle(0x000000, 0.7);
+    panel.fillRect(0, C.GAME_HEIGHT - PANEL_H, C.GAME_WIDTH, PANEL_H);
+
+    this.playText = this.button(40, BAR_Y + BAR_H / 2, '', () => this.togglePause()).setFontSize(18);
+    this.speedText = this.button(90, BAR_Y + BAR_H / 2, '', () => this.cycleSpeed(1));
+    this.button(C.GAME_WIDTH - 70, BAR_Y + BAR_H / 2, '[書き出し]', () => this.exportReplay());
+
+    this.timeText = this.add
+      .text(BAR_X, BAR_Y - 8, '', { fontSize: '11px', color: '#ffffff' })
+      .setOrigin(0, 1);
+    this.markerText = this.add
+      .text(BAR_X + BAR_W, BAR_Y - 8, '', { fontSize: '11px', color: '#ffffff' })
+      .setOrigin(1, 1);
+    this.add
+      .text(C.GAME_WIDTH / 2, C.GAME_HEIGHT - 4,
+        'Space: 再生/一時停止 | ←/→: 5秒移動 | ↑/↓: 速度 | バーをクリック: シーク | Esc: 終了', {
+          fontSize: '10px',
+          color: '#aaaaaa',
+        })
+      .setOrigin(0.5, 1);
+
+    this.barGfx = this.add.graphics();
+    this.drawMarkers(this.add.graphics());
+
+    const bar = this.add
+      .zone(BAR_X, BAR_Y - 6, BAR_W, BAR_H + 12)
+      .setOrigin(0, 0)
+      .setInteractive({ useHandCursor: true });
+    bar.on('pointerdown', (pointer: Phaser.Input.Pointer) => {
+      this.scrubbing = true;
+      this.seekToPointer(pointer);
+    });
+    this.input.on('pointermove', (pointer: Phaser.Input.Pointer) => {
+      if (this.scrubbing) this.seekToPointer(pointer);
+      this.showMarkerAt(pointer);
+    });
+    this.input.on('pointerup', () => {
+      this.scrubbing = false;
+    });
+
+    const kb = this.input.keyboard!;
+    kb.on('keydown-SPACE', () => this.togglePause());
+    kb.on('keydown-LEFT', () => this.skip(-SKIP_MS));
+    kb.on('keydown-RIGHT', () => this.skip(SKIP_MS));
+    kb.on('keydown-UP', () => this.cycleSpeed(1));
+    kb.on('keydown-DOWN', () => this.cycleSpeed(-1));
+  }
+
+  update() {
+    const total = this.replay.ticks.length;
+    const shown = this.control.seekTarget ?? this.control.tick;
+
+    this.playText.setText(this.control.paused || this.control.ended ? '▶' : '❚❚');
+    this.speedText.setText(`×${this.control.speed}`);
+    const seeking = this.control.seekTarget !== null ? '  (シーク中…)' : '';
+    this.timeText.setText(`${formatTime(shown)} / ${formatTime(total)}${seeking}`);
+
+    this.barGfx.clear();
+    this.barGfx.fillStyle(0x333333, 1);
+    this.barGfx.fillRect(BAR_X, BAR_Y, BAR_W, BAR_H);
+    const ratio = total > 0 ? Math.min(1, shown / total) : 0;
+    this.barGfx.fillStyle(0x4488ff, 0.8);
+    this.barGfx.fillRect(BAR_X, BAR_Y, BAR_W * ratio, BAR_H);
+    this.barGfx.fillStyle(0xffffff, 1);
+    this.barGfx.fillRect(BAR_X + BAR_W * ratio - 2, BAR_Y - 4, 4, BAR_H + 8);
+  }
+
+  private button(x: number, y: number, label: string, onClick: () => void): Phaser.GameObjects.Text {
+    const text = this.add
+      .text(x, y, label, { fontSize: '14px', color: '#88ccff' })
+      .setOrigin(0.5)
+      .setInteractive({ useHandCursor: true });
+    text.on('pointerdown', onClick);
+    return text;
+  }
+
+  private drawMarkers(gfx: Phaser.GameObjects.Graphics) {
+    const total = Math.max(1, this.replay.ticks.length);
+    for (const marker of this.replay.markers) {
+      const x = BAR_X + BAR_W * (marker.tick / total);
+      const color = marker.kind === 'evolution' ? 0x44ff44 : 0xff4444;
+      const top = marker.kind === 'evolution' ? BAR_Y - 6 : BAR_Y + BAR_H;
+      gfx.fillStyle(color, 0.9);
+      gfx.fillRect(x - 1, top, 2, 6);
+    }
+  }
+
+  /** Name the marker under the pointer, if any. */
+  private showMarkerAt(pointer: Phaser.Input.Pointer) {
+    const total = Math.max(1, this.replay.ticks.length);
+    const near = Math.abs(pointer.y - (BAR_Y + BAR_H / 2)) <= 12
+      ? this.replay.markers.find((m) => Math.abs(BAR_X + BAR_W * (m.tick / total) - pointer.x) <= 3)
+      : undefined;
+    this.markerText.setText(near ? `${formatTime(near.tick)} ${near.label}` : '');
+    this.markerText.setColor(near?.kind === 'evolution' ? '#88ff88' : '#ff8888');
+  }
+
+  private seekToPointer(pointer: Phaser.Input.Pointer) {
+    const ratio = Phaser.Math.Clamp((pointer.x - BAR_X) / BAR_W, 0, 1);
+    this.seek(Math.round(ratio * this.replay.ticks.length));
+  }
+
+  private skip(ms: number) {
+    const current = this.control.seekTarget ?? this.control.tick;
+    this.seek(current + Math.round(ms / C.PHYSICS_FRAME_MS));
+  }
+
+  private seek(tick: number) {
+    this.control.seekTarget = Phaser.Math.Clamp(tick, 0, this.replay.ticks.length);
+  }
+
+  private togglePause() {
+    if (this.control.ended) {
+      this.seek(0);
+      this.control.paused = false;
+      return;
+    }
+    this.control.paused = !this.control.paused;
+  }
+
+  private cycleSpeed(step: number) {
+    const index = Phaser.Math.Clamp(SPEEDS.indexOf(this.control.speed) + step, 0, SPEEDS.length - 1);
+    this.control.speed = SPEEDS[index];
+  }
+
+  private exportReplay() {
+    const name = this.replay.levelId ?? this.replay.seed.toLowerCase();
+    downloadText(`phyloclimb-replay-${name}.json`, serializeReplay(this.replay));
+  }
+}
+
+/** Ticks as m:ss.s of simulated time. */
+function formatTime(ticks: number): string {
+  const seconds = (ticks * C.PHYSICS_FRAME_MS) / 1000;
+  const m = Math.floor(seconds / 60);
+  const s = (seconds % 60).toFixed(1).padStart(4, '0');
+  return `${m}:${s}`;
+}
@@ -0,0 +1,341 @@
+import Phaser from 'phaser';
+import * as C from '../constants';
+import { SeededRandom } from '../systems/SeededRandom';
+import { LevelFile, LevelValidationError, parseLevel, stageToLevel } from '../systems/LevelLoader';
+import { MapGenerator } from '../systems/MapGenerator';
+import { InputRecording } from '../systems/InputRecorder';
+import { ReplayFormatError, loadLastReplay, parseReplay } from '../systems/Replay';
+import { ENCYCLOPEDIA_REGISTRY_KEY, EncyclopediaSystem, SaveProblem } from '../systems/EncyclopediaSystem';
+import { SaveFormatError } from '../systems/SaveSchema';
+import { ALL_CHALLENGE_RULE_IDS, ChallengeRuleId, challengeRules, normalizeChallenges } from '../data/challenges';
+import { downloadText, pickTextFile } from '../ui/fileDialogs';
+import { GameSceneData } from './GameScene';
+import { LevelEditorSceneData } from './LevelEditorScene';
+import { startReplay } from './ReplayViewerScene';
+
+const MAX_SEED_LENGTH = 12;
+
+const SAVE_PROBLEM_MESSAGES: Record<SaveProblem, string> = {
+  fields_reset: 'セーブの壊れた項目を初期化しました',
+  unreadable: 'セーブを読めないため退避して新しく始めました',
+  load_failed: 'セーブの保存先を読めません (新しく始めました)',
+  write_failed: 'セーブの保存先に書き込めません',
+};
+
+/** Data passed to RunSetupScene, e.g. to prefill the last run's seed. */
+export interface RunSetupSceneData {
+  seed?: string;
+  level?: LevelFile;
+  ghost?: boolean;
+  challenges?: ChallengeRuleId[];
+}
+
+/**
+ * Pre-run screen. Shows the seed for the next run and lets the player
+ * type their own so the same map can be shared and replayed. A JSON level
+ * file can be loaded to play it instead of a generated stage, and replays
+ * (the latest run's, or an imported file) can be watched from here.
+ * Challenge rules picked here restrict the run; clearing under them earns
+ * a badge.
+ * The encyclopedia save can be exported and imported to move progress
+ * between browsers.
+ */
+export class RunSetupScene extends Phaser.Scene {
+  private seed: string = '';
+  private level: LevelFile | null = null;
+  private ghost = true;
+  private challenges: ChallengeRuleId[] = [];
+  private seedText!: Phaser.GameObjects.Text;
+  private levelText!: Phaser.GameObjects.Text;
+  private levelErrorText!: Phaser.GameObjects.Text;
+  private replayErrorText!: Phaser.GameObjects.Text;
+  private ghostText!: Phaser.GameObjects.Text;
+  private challengeTexts = new Map<ChallengeRuleId, Phaser.GameObjects.Text>();
+  private saveStatusText!: Phaser.GameObjects.Text;
+
+  constructor() {
+    super({ key: 'RunSetupScene' });
+  }
+
+  init(data: RunSetupSceneData) {
+    this.seed = data.seed ? SeededRandom.normalizeSeed(data.seed) : SeededRandom.randomSeed();
+    this.level = data.level ?? null;
+    this.ghost = data.ghost ?? true;
+    this.challenges = normalizeChallenges(data.challenges ?? []);
+  }
+
+  create() {
+    const cx = C.GAME_WIDTH / 2;
+
+    this.add
+      .text(cx, 140, 'PhyloClimb', {
+        fontSize: '48px',
+        color: '#88ff88',
+        fontStyle: 'bold',
+        stroke: '#000000',
+        strokeThickness: 6,
+      })
+      .setOrigin(0.5);
+
+    this.add
+      .text(cx, 250, 'シード', { fontSize: '16px', color: '#aaaaaa' })
+      .setOrigin(0.5);
+
+    const box = this.add.graphics();
+    box.fillStyle(0x000000, 0.5);
+    box.fillRect(cx - 150, 270, 300, 44);
+    box.lineStyle(2, 0x88ff88, 0.6);
+    box.strokeRect(cx - 150, 270, 300, 44);
+
+    this.seedText = this.add
+      .text(cx, 292, '', { fontSize: '24px', color: '#ffffff', fontStyle: 'bold' })
+      .setOrigin(0.5);
+
+    const start = this.add
+      .text(cx, 370, '▶ スタート', {
+        fontSize: '22px',
+        color: '#ffd700',
+        fontStyle: 'bold',
+        stroke: '#000000',
+        strokeThickness: 4,
+      })
+      .setOrigin(0.5)
+      .setInteractive({ useHandCursor: true });
+    start.on('pointerdown', () => this.startRun());
+
+    this.ghostText = this.add
+      .text(cx + 150, 370, '', { fontSize: '13px', color: '#88ccff' })
+      .setOrigin(0, 0.5)
+      .setInteractive({ useHandCursor: true });
+    this.ghostText.on('pointerdown', () => {
+      this.ghost = !this.ghost;
+      this.refreshGhost();
+    });
+
+    // Challenge rules
+    ALL_CHALLENGE_RULE_IDS.forEach((id, i) => {
+      const text = this.add
+        .text(cx + (i - 1.5) * 130, 338, '', { fontSize: '13px' })
+        .setOrigin(0.5)
+        .setInteractive({ useHandCursor: true });
+      text.on('pointerdown', () => this.toggleChallenge(id));
+      this.challengeTexts.set(id, text);
+    });
+
+    // Save file
+    const exportSaveButton = this.add
+      .text(C.GAME_WIDTH - 190, 20, '[セーブ書き出し]', { fontSize: '12px', color: '#88ccff' })
+      .setOrigin(0.5)
+      .setInteractive({ useHandCursor: true });
+    exportSaveButton.on('pointerdown', () => {
+      downloadText('phyloclimb-save.json', this.encyclopedia().exportSave());
+    });
+
+    const importSaveButton = this.add
+      .text(C.GAME_WIDTH - 70, 20, '[セーブ読込]', { fontSize: '12px', color: '#88ccff' })
+      .setOrigin(0.5)
+      .setInteractive({ useHandCursor: true });
+    importSaveButton.on('pointerdown', () => this.importSave());
+
+    this.saveStatusText = this.add
+      .text(C.GAME_WIDTH - 20, 36, '', { fontSize: '11px', color: '#ff6666', align: 'right' })
+      .setOrigin(1, 0);
+
+    // Replays
+    const lastReplayButton = this.add
+      .text(cx - 80, 405, '[前回のリプレイ]', { fontSize: '13px', color: '#88ccff' })
+      .setOrigin(0.5)
+      .setInteractive({ useHandCursor: true });
+    lastReplayButton.on('pointerdown', () => {
+      const replay = loadLastReplay();
+      if (replay) this.watchReplay(replay);
+      else this.replayErrorText.setText('保存されたリプレイがありません');
+    });
+
+    const importReplayButton = this.add
+      .text(cx + 80, 405, '[リプレイ読込]', { fontSize: '13px', color: '#88ccff' })
+      .setOrigin(0.5)
+      .setInteractive({ useHandCursor: true });
+    importReplayButton.on('pointerdown', () => this.importReplay());
+
+    this.replayErrorText = this.add
+      .text(cx, 422, '', { fontSize: '11px', color: '#ff6666' })
+      .setOrigin(0.5, 0);
+
+    // Level file
+    this.levelText = this.add
+      .text(cx, 480, '', { fontSize: '14px', color: '#aaaaaa' })
+      .setOrigin(0.5);
+
+    const loadButton = this.add
+      .text(cx - 140, 510, '[レベル読込]', { fontSize: '14px', color: '#88ccff' })
+      .setOrigin(0.5)
+      .setInteractive({ useHandCursor: true });
+    loadButton.on('pointerdown', () => this.loadLevel());
+
+    const editButton = this.add
+      .text(cx, 510, '[エディタ]', { fontSize: '14px', color: '#88ccff' })
+      .setOrigin(0.5)
+      .setInteractive({ useHandCursor: true });
+    editButton.on('pointerdown', () => this.openEditor());
+
+    const clearButton = this.add
+      .text(cx + 140, 510, '[自動生成に戻す]', { fontSize: '14px', color: '#88ccff' })
+      .setOrigin(0.5)
+      .setInteractive({ useHandCursor: true });
+    clearButton.on('pointerdown', () => {
+      this.level = null;
+      this.levelErrorText.setText('');
+      this.refreshLevel();
+    });
+
+    this.levelErrorText = this.add
+      .text(cx, 535, '', { fontSize: '11px', color: '#ff6666', align: 'center' })
+      .setOrigin(0.5, 0);
+
+    this.add
+      .text(cx, 440, '英数字でシード入力 | Backspace: 削除 | Tab: ランダム | Enter: スタート', {
+        fontSize: '12px',
+        color: '#888888',
+      })
+      .setOrigin(0.5);
+
+    this.input.keyboard!.addCapture([
+      Phaser.Input.Keyboard.KeyCodes.TAB,
+      Phaser.Input.Keyboard.KeyCodes.BACKSPACE,
+    ]);
+    this.input.keyboard!.on('keydown', (event: KeyboardEvent) => this.handleKey(event));
+
+    this.refreshSeed();
+    this.refreshLevel();
+    this.refreshGhost();
+    this.refreshChallenges();
+
+    const problem = this.encyclopedia().takeProblem();
+    if (problem) this.saveStatusText.setColor('#ff6666').setText(SAVE_PROBLEM_MESSAGES[problem]);
+  }
+
+  private async loadLevel() {
+    const text = await pickTextFile();
+    if (text === null) return;
+
+    try {
+      this.level = parseLevel(text);
+      this.levelErrorText.setText('');
+    } catch (e) {
+      const issues = e instanceof LevelValidationError
+        ? e.issues.map((i) => `${i.path}: ${i.message}`)
+        : [String(e)];
+      // Show the first few problems and how many more there are
+      const shown = issues.slice(0, 4);
+      if (issues.length > shown.length) shown.push(`…他 ${issues.length - shown.length} 件`);
+      this.levelErrorText.setText(shown.join('\n'));
+    }
+    this.refreshLevel();
+  }
+
+  private async importReplay() {
+    const text = await pickTextFile();
+    if (text === null) return;
+
+    try {
+      this.watchReplay(parseReplay(text));
+    } catch (e) {
+      this.replayErrorText.setText(e instanceof ReplayFormatError ? `リプレイ: ${e.message}` : String(e));
+    }
+  }
+
+  private encyclopedia(): EncyclopediaSystem {
+    return this.registry.get(ENCYCLOPEDIA_REGISTRY_KEY);
+  }
+
+  private async importSave() {
+    const text = await pickTextFile();
+    if (text === null) return;
+
+    try {
+      this.encyclopedia().importSave(text);
+      this.saveStatusText.setColor('#88ff88').setText('セーブを読み込みました');
+    } catch (e) {
+      const issues = e instanceof SaveFormatError
+        ? e.issues.map((i) => `${i.path}: ${i.message}`)
+        : [String(e)];
+      const shown = issues.slice(0, 3);
+      if (issues.length > shown.length) shown.push(`…他 ${issues.length - shown.length} 件`);
+      this.saveStatusText.setColor('#ff6666').setText(['セーブを読み込めません', ...shown].join('\n'));
+    }
+  }
+
+  /** Replays of level files need that level loaded first; generated stages only need the seed. */
+  private watchReplay(replay: InputRecording) {
+    if (replay.levelId !== null && replay.levelId !== this.level?.id) {
+      this.replayErrorText.setText(`レベル「${replay.levelId}」を読み込んでから再生してください`);
+      return;
+    }
+    startReplay(this.scene, replay, replay.levelId !== null ? this.level : null);
+  }
+
+  private refreshLevel() {
+    this.levelText.setText(this.level ? `レベル: ${this.level.name}` : 'レベル: 自動生成 (シード)');
+    this.levelText.setColor(this.level ? '#ffffff' : '#aaaaaa');
+  }
+
+  private refreshGhost() {
+    this.ghostText.setText(`[ゴースト: ${this.ghost ? 'オン' : 'オフ'}]`);
+  }
+
+  private toggleChallenge(id: ChallengeRuleId) {
+    this.challenges = this.challenges.includes(id)
+      ? this.challenges.filter((c) => c !== id)
+      : normalizeChallenges([...this.challenges, id]);
+    this.refreshChallenges();
+  }
+
+  private refreshChallenges() {
+    for (const [id, text] of this.challengeTexts) {
+      const on = this.challenges.includes(id);
+      text.setText(`[${on ? '✔' : '　'}${challengeRules[id].name}]`);
+      text.setColor(on ? '#ff88ff' : '#888888');
+    }
+  }
+
+  private handleKey(event: KeyboardEvent) {
+    if (event.key === 'Enter') {
+      this.startRun();
+    } else if (event.key === 'Backspace') {
+      this.seed = this.seed.slice(0, -1);
+    } else if (event.key === 'Tab') {
+      this.seed = SeededRandom.randomSeed();
+    } else if (event.key.length === 1 && this.seed.length < MAX_SEED_LENGTH) {
+      this.seed += SeededRandom.normalizeSeed(event.key);
+    }
+    this.refreshSeed();
+  }
+
+  private refreshSeed() {
+    this.seedText.setText(this.seed || '(ランダム)');
+    this.seedText.setColor(this.seed ? '#ffffff' : '#666666');
+  }
+
+  /** Edit the loaded level, or the stage this seed would generate. */
+  private openEditor() {
+    if (!this.seed) this.seed = SeededRandom.randomSeed();
+    const level = this.level ?? stageToLevel(
+      new MapGenerator(new SeededRandom(this.seed).fork('map')).generate(),
+      `seed-${this.seed.toLowerCase()}`,
+      `Seed ${this.seed}`,
+    );
+    const data: LevelEditorSceneData = { level, seed: this.seed };
+    this.scene.start('LevelEditorScene', data);
+  }
+
+  private startRun() {
+    const data: GameSceneData = {
+      seed: this.seed || undefined,
+      level: this.level ?? undefined,
+      ghost: this.ghost,
+      challenges: this.challenges,
+    };
+    this.scene.start('GameScene', data);
+  }
+}
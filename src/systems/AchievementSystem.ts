@@ -0,0 +1,44 @@
+import { AchievementDef, AchievementId, RunEvent, RunProgress, achievements } from '../data/achievements';
+
+export type UnlockCallback = (achievement: AchievementDef) => void;
+
+/**
+ * Follows one run's events and checks the achievement registry against
+ * each of them. Achievements already unlocked (per `isUnlocked`, usually
+ * the encyclopedia) are skipped, so each unlock fires once.
+ */
+export class AchievementSystem {
+  private run: RunProgress = { evolutions: [], falls: 0, fallDamage: 0, peakHeight: 0 };
+  private unlockCallbacks: UnlockCallback[] = [];
+  private unlockedThisRun = new Set<AchievementId>();
+
+  constructor(private readonly isUnlocked: (id: AchievementId) => boolean) {}
+
+  /** Register a callback that fires when an achievement is unlocked. */
+  onUnlock(cb: UnlockCallback): void {
+    this.unlockCallbacks.push(cb);
+  }
+
+  /** Update the run with `event`, then unlock whatever it completes. */
+  handle(event: RunEvent): void {
+    switch (event.type) {
+      case 'evolution':
+        this.run.evolutions.push(event.node);
+        break;
+      case 'fall':
+        this.run.falls++;
+        this.run.fallDamage += event.damage;
+        break;
+      case 'height':
+        this.run.peakHeight = Math.max(this.run.peakHeight, event.meters);
+        break;
+    }
+
+    for (const achievement of achievements) {
+      if (this.unlockedThisRun.has(achievement.id) || this.isUnlocked(achievement.id)) continue;
+      if (!achievement.unlocks(event, this.run)) continue;
+      this.unlockedThisRun.add(achievement.id);
+      for (const cb of this.unlockCallbacks) cb(achievement);
+    }
+  }
+}
@@ -0,0 +1,58 @@
+import * as C from '../constants';
+import {
+  EvolutionEffects, EvolutionNodeId, EffectStackRule, evolutionTree, effectStackRules,
+} from '../data/evolutionTree';
+
+export type ResolvedEffects = Required<EvolutionEffects>;
+
+/** Player values with no evolutions active. */
+export const BASE_EFFECTS: Readonly<ResolvedEffects> = {
+  bodyStretchFactor: 1.0,
+  friction: 0.1,
+  canJump: false,
+  canChargedJump: false,
+  canGrapple: false,
+  grappleRange: C.GRAPPLE_RANGE,
+  maxHpBonus: 0,
+  fallDamageMultiplier: 1.0,
+  airControlMultiplier: 1.0,
+  reelSpeedMultiplier: 1.0,
+  bodyWeight: 0,
+  canAttack: false,
+  attackRange: C.ATTACK_RANGE,
+  hpOnHit: 0,
+};
+
+type EffectValue = number | boolean;
+
+function stack(rule: EffectStackRule, current: EffectValue, value: EffectValue): EffectValue {
+  switch (rule) {
+    case 'override':
+      return value;
+    case 'add':
+      return (current as number) + (value as number);
+    case 'multiply':
+      return (current as number) * (value as number);
+    case 'max':
+      if (typeof value === 'boolean') return (current as boolean) || value;
+      return Math.max(current as number, value);
+  }
+}
+
+/**
+ * Folds the effects of the given nodes onto BASE_EFFECTS using
+ * effectStackRules. Nodes must be passed in the order they were gained
+ * so that 'override' effects resolve to the latest node.
+ */
+export function resolveEffects(nodeIds: readonly EvolutionNodeId[]): ResolvedEffects {
+  const result: Record<string, EffectValue> = { ...BASE_EFFECTS };
+  for (const nodeId of nodeIds) {
+    const effects = evolutionTree[nodeId].effects;
+    for (const key of Object.keys(effects) as (keyof EvolutionEffects)[]) {
+      const value = effects[key];
+      if (value === undefined) continue;
+      result[key] = stack(effectStackRules[key], result[key], value);
+    }
+  }
+  return result as ResolvedEffects;
+}
@@ -1,40 +1,303 @@
 import { EvolutionNodeId, ALL_NODE_IDS } from '../data/evolutionTree';
+import { FoodTypeId } from '../data/foodTypes';
+import { BiomeId } from '../data/biomes';
+import { ChallengeRuleId, normalizeChallenges } from '../data/challenges';
+import { AchievementId } from '../data/achievements';
+import { SaveFormatError, defaultSaveData, mergeSaves, parseSave, serializeSave } from './SaveSchema';
+import { MemoryBackend, StorageBackend } from './SaveStorage';
+
+/** Game registry key of the shared EncyclopediaSystem, opened in main.ts. */
+export const ENCYCLOPEDIA_REGISTRY_KEY = 'encyclopedia';
 
 const STORAGE_KEY = 'phyloclimb_encyclopedia';
+const BACKUP_KEY = 'phyloclimb_encyclopedia_unreadable';
+const MAX_GHOSTS = 10;
+const MAX_HEAT_POINTS = 2000;
+const MAX_RUN_HISTORY = 20;
+
+/** Path of a best clear, raced against by later runs on the same layout. */
+export interface GhostRecord {
+  levelKey: string;             // level file ID, or "seed:<SEED>" for generated stages
+  layoutHash: string;           // geometry the ghost was recorded on
+  goal: string;                 // goal label
+  ticks: number;                // clear time in simulation ticks
+  splits: number[];             // tick of first entry into each section, -1 if never entered
+  path: number[];               // x, y pairs sampled every GHOST_SAMPLE_TICKS
+}
+
+/** Records for one goal of one level. */
+export interface GoalRecord {
+  name: string;                 // display name the goal was last cleared under
+  clears: number;
+  bestTicks: number;            // fastest clear in simulation ticks
+  bestHp: number;               // most HP left on a clear
+}
+
+/** What killed the player. */
+export type DeathCause = 'fall' | 'deathzone' | 'enemy' | 'mimic';
+
+/** Earned by clearing a goal under a set of challenge rules. */
+export interface ChallengeBadge {
+  rules: ChallengeRuleId[];     // in canonical order, see normalizeChallenges
+  goal: string;                 // goal label
+  clears: number;
+  earnedAt: number;             // Date.now() of the first clear
+}
+
+/** Where the player took fall damage or died, for balancing heatmaps. */
+export interface HeatPoint {
+  levelKey: string;             // as in GhostRecord
+  layoutHash: string;
+  kind: 'fall' | 'death';
+  x: number;                    // rounded world position
+  y: number;
+  damage: number;               // fall damage taken, 0 for deaths
+  cause: DeathCause | null;     // set for deaths
+  at: number;                   // Date.now() of the event
+}
+
+/** An evolution gained during a run. */
+export interface TimedEvolution {
+  node: EvolutionNodeId;
+  tick: number;                         // simulation tick it was gained on
+}
+
+/** Everything recordRun needs to know about a finished run. */
+export interface RunSummary {
+  levelKey: string;                     // as in GhostRecord
+  ticks: number;                        // run duration in simulation ticks
+  evolutions: TimedEvolution[];         // in the order gained
+  goal: string | null;                  // label of the goal reached, null = died
+  deathCause: DeathCause | null;        // set when the run died
+  remainingHp: number;
+  intake: Record<FoodTypeId, number>;   // food points picked up
+  peakHeight: number;
+  furthestBiome: BiomeId;               // biome of the furthest section reached
+}
+
+/** A recent run, kept for the history page. */
+export interface RunHistoryEntry {
+  date: number;                         // Date.now() when the run ended
+  levelKey: string;
+  ticks: number;
+  goal: string | null;
+  deathCause: DeathCause | null;
+  evolutions: TimedEvolution[];
+  peakHeight: number;                   // rounded
+  remainingHp: number;
+}
 
 export interface EncyclopediaData {
   discoveredNodes: EvolutionNodeId[];
   totalRuns: number;
   totalClears: number;
   bestRemainingHp: number;
+  mimicEncounters: number;      // times a mimic hook was grappled
+  ghosts: GhostRecord[];        // best clear per level and goal, oldest first
+  goals: Record<string, Record<string, GoalRecord>>;  // by levelKey (as in GhostRecord), then goal label
+  foodIntake: Record<FoodTypeId, number>;  // lifetime food points picked up
+  highestHeight: number;
+  deaths: Record<DeathCause, number>;
+  furthestBiomes: Record<BiomeId, number>; // runs whose furthest section was in each biome
+  heatmap: HeatPoint[];         // oldest first
+  history: RunHistoryEntry[];   // latest MAX_RUN_HISTORY runs, oldest first
+  badges: ChallengeBadge[];
+  achievements: Partial<Record<AchievementId, number>>;  // Date.now() of each unlock
 }
 
+/** Something that went wrong with the stored save, for the UI to report. */
+export type SaveProblem =
+  | 'fields_reset'              // broken fields were reset to their defaults
+  | 'unreadable'                // set aside under BACKUP_KEY, started over
+  | 'load_failed'               // the backend couldn't be read, started over
+  | 'write_failed';             // the backend couldn't be written, progress is unsaved
+
 /**
- * Persistent encyclopedia that survives page reloads via localStorage.
+ * Persistent encyclopedia that survives page reloads via a StorageBackend.
  * Records discovered evolution nodes and run statistics.
+ *
+ * Saves are written in the background, one at a time. If another tab or
+ * device saved in between, both saves are merged rather than overwritten.
  */
 export class EncyclopediaSystem {
-  private data: EncyclopediaData;
+  private data: EncyclopediaData = defaultSaveData();
+  private lastStored: string | null = null;   // save text as last read or written here
+  private writes: Promise<void> = Promise.resolve();
+  private problem: SaveProblem | null = null;
+
+  private constructor(private readonly storage: StorageBackend) {}
+
+  /** Load the encyclopedia from `storage`. Starts empty if it can't be read. */
+  static async open(storage: StorageBackend): Promise<EncyclopediaSystem> {
+    const encyclopedia = new EncyclopediaSystem(storage);
+    try {
+      const raw = await storage.load(STORAGE_KEY);
+      if (raw) encyclopedia.data = (await encyclopedia.read(raw)) ?? defaultSaveData();
+      encyclopedia.lastStored = raw;
+    } catch {
+      encyclopedia.problem = 'load_failed';
+    }
+    return encyclopedia;
+  }
 
-  constructor() {
-    this.data = this.load();
+  /**
+   * A copy of the current data that saves to memory only. Replays and
+   * play-tests record into one, so they can never change the real save.
+   */
+  sandbox(): EncyclopediaSystem {
+    const copy = new EncyclopediaSystem(new MemoryBackend());
+    copy.data = structuredClone(this.data);
+    return copy;
   }
 
   /** Record end of a run (death or clear). */
-  recordRun(unlockedNodes: EvolutionNodeId[], cleared: boolean, remainingHp: number): void {
+  recordRun(run: RunSummary): void {
     this.data.totalRuns++;
-    if (cleared) {
+    if (run.goal !== null) {
       this.data.totalClears++;
-      if (remainingHp > this.data.bestRemainingHp) {
-        this.data.bestRemainingHp = remainingHp;
+      if (run.remainingHp > this.data.bestRemainingHp) {
+        this.data.bestRemainingHp = run.remainingHp;
       }
+    } else if (run.deathCause) {
+      this.data.deaths[run.deathCause]++;
     }
-    for (const node of unlockedNodes) {
+    for (const { node } of run.evolutions) {
       if (!this.data.discoveredNodes.includes(node)) {
         this.data.discoveredNodes.push(node);
       }
     }
+    for (const [food, points] of Object.entries(run.intake) as [FoodTypeId, number][]) {
+      this.data.foodIntake[food] += points;
+    }
+    this.data.highestHeight = Math.max(this.data.highestHeight, Math.round(run.peakHeight));
+    this.data.furthestBiomes[run.furthestBiome]++;
+    this.data.history.push({
+      date: Date.now(),
+      levelKey: run.levelKey,
+      ticks: run.ticks,
+      goal: run.goal,
+      deathCause: run.deathCause,
+      evolutions: [...run.evolutions],
+      peakHeight: Math.round(run.peakHeight),
+      remainingHp: run.remainingHp,
+    });
+    this.trimHistory();
+    this.save();
+  }
+
+  /** The biome runs most often got furthest in, or null before the first run. */
+  getMostReachedBiome(): BiomeId | null {
+    let best: BiomeId | null = null;
+    for (const [biome, count] of Object.entries(this.data.furthestBiomes) as [BiomeId, number][]) {
+      if (count > 0 && (best === null || count > this.data.furthestBiomes[best])) best = biome;
+    }
+    return best;
+  }
+
+  /** Record a clear of `goal` on the level `levelKey`. Returns true if it was the fastest yet. */
+  recordGoalClear(levelKey: string, goal: string, name: string, ticks: number, remainingHp: number): boolean {
+    const current = this.getGoalRecord(levelKey, goal);
+    const fastest = !current || ticks < current.bestTicks;
+    this.data.goals[levelKey] ??= {};
+    this.data.goals[levelKey][goal] = {
+      name,
+      clears: (current?.clears ?? 0) + 1,
+      bestTicks: fastest ? ticks : current.bestTicks,
+      bestHp: Math.max(current?.bestHp ?? 0, remainingHp),
+    };
+    this.save();
+    return fastest;
+  }
+
+  getGoalRecord(levelKey: string, goal: string): GoalRecord | null {
+    return this.data.goals[levelKey]?.[goal] ?? null;
+  }
+
+  /** Credit a clear under challenge rules. Returns true if the badge is new. */
+  recordBadge(rules: ChallengeRuleId[], goal: string): boolean {
+    const normalized = normalizeChallenges(rules);
+    const key = normalized.join('+');
+    const badge = this.data.badges.find((b) => b.goal === goal && b.rules.join('+') === key);
+    if (badge) {
+      badge.clears++;
+    } else {
+      this.data.badges.push({ rules: normalized, goal, clears: 1, earnedAt: Date.now() });
+    }
+    this.save();
+    return !badge;
+  }
+
+  /** Record an unlocked achievement. Returns false if it was unlocked before. */
+  recordAchievement(id: AchievementId): boolean {
+    if (this.hasAchievement(id)) return false;
+    this.data.achievements[id] = Date.now();
+    this.save();
+    return true;
+  }
+
+  hasAchievement(id: AchievementId): boolean {
+    return this.data.achievements[id] !== undefined;
+  }
+
+  /** Log a fall or death position immediately, like mimic encounters. */
+  recordHeatPoint(point: HeatPoint): void {
+    this.data.heatmap.push(point);
+    this.trimHeatmap();
+    this.save();
+  }
+
+  /** Heat points recorded on exactly this layout. */
+  getHeatPoints(levelKey: string, layoutHash: string): HeatPoint[] {
+    return this.data.heatmap.filter((p) => p.levelKey === levelKey && p.layoutHash === layoutHash);
+  }
+
+  /** Log a mimic hook encounter immediately, so it survives a later crash or reload. */
+  recordMimicEncounter(): void {
+    this.data.mimicEncounters++;
+    this.save();
+  }
+
+  /**
+   * Best-clear ghosts for a level. Ghosts recorded on an older layout of
+   * the same level can't be raced anymore and are discarded.
+   */
+  getGhosts(levelKey: string, layoutHash: string): GhostRecord[] {
+    const stale = this.data.ghosts.filter((g) => g.levelKey === levelKey && g.layoutHash !== layoutHash);
+    if (stale.length > 0) {
+      this.data.ghosts = this.data.ghosts.filter((g) => !stale.includes(g));
+      this.save();
+    }
+    return this.data.ghosts.filter((g) => g.levelKey === levelKey);
+  }
+
+  /** Keep a clear as the ghost for its level and goal if it is the fastest. Returns true if it was. */
+  recordGhost(ghost: GhostRecord): boolean {
+    const current = this.data.ghosts.find((g) =>
+      g.levelKey === ghost.levelKey && g.layoutHash === ghost.layoutHash && g.goal === ghost.goal);
+    if (current && current.ticks <= ghost.ticks) return false;
+
+    this.data.ghosts = this.data.ghosts.filter((g) => g !== current);
+    this.data.ghosts.push(ghost);
+    this.trimGhosts();
     this.save();
+    return true;
+  }
+
+  /** Forget the least recently improved ghosts first. */
+  private trimGhosts(): void {
+    while (this.data.ghosts.length > MAX_GHOSTS) this.data.ghosts.shift();
+  }
+
+  private trimHistory(): void {
+    if (this.data.history.length > MAX_RUN_HISTORY) {
+      this.data.history.splice(0, this.data.history.length - MAX_RUN_HISTORY);
+    }
+  }
+
+  private trimHeatmap(): void {
+    if (this.data.heatmap.length > MAX_HEAT_POINTS) {
+      this.data.heatmap.splice(0, this.data.heatmap.length - MAX_HEAT_POINTS);
+    }
   }
 
   isNodeDiscovered(nodeId: EvolutionNodeId): boolean {
@@ -49,29 +312,70 @@ export class EncyclopediaSystem {
     return this.data;
   }
 
-  private load(): EncyclopediaData {
-    try {
-      const raw = localStorage.getItem(STORAGE_KEY);
-      if (raw) {
-        const parsed = JSON.parse(raw) as EncyclopediaData;
-        // Filter out old node IDs that no longer exist
-        parsed.discoveredNodes = parsed.discoveredNodes.filter(
-          (id) => ALL_NODE_IDS.includes(id as EvolutionNodeId)
-        );
-        return parsed;
-      }
-    } catch { /* ignore corrupt data */ }
-    return {
-      discoveredNodes: [],
-      totalRuns: 0,
-      totalClears: 0,
-      bestRemainingHp: 0,
-    };
+  /** The save as a JSON document, to carry progress to another browser. */
+  exportSave(): string {
+    return serializeSave(this.data);
+  }
+
+  /**
+   * Replace the save with an exported one. Throws SaveFormatError, leaving
+   * the current save untouched, unless the whole document is valid.
+   */
+  importSave(text: string): void {
+    const { data, issues } = parseSave(text);
+    if (issues.length > 0) throw new SaveFormatError(issues);
+    this.data = data;
+    this.save(true);
+  }
+
+  /** The latest save problem not reported yet, cleared so it is shown once. */
+  takeProblem(): SaveProblem | null {
+    const problem = this.problem;
+    this.problem = null;
+    return problem;
+  }
+
+  /** Resolves once every save so far has been written (or has failed). */
+  flush(): Promise<void> {
+    return this.writes;
   }
 
-  private save(): void {
+  /** Parse a stored save. An unreadable one is set aside under BACKUP_KEY and null returned. */
+  private async read(raw: string): Promise<EncyclopediaData | null> {
     try {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.data));
-    } catch { /* storage full, ignore */ }
+      const { data, issues } = parseSave(raw);
+      if (issues.length > 0) this.problem = 'fields_reset';
+      return data;
+    } catch {
+      this.problem = 'unreadable';
+      await this.storage.save(BACKUP_KEY, raw).catch(() => { /* nowhere to keep it */ });
+      return null;
+    }
+  }
+
+  /** Queue a write of the current data. `replace` skips merging with the stored save. */
+  private save(replace = false): void {
+    this.writes = this.writes
+      .then(() => this.write(replace))
+      .catch(() => { this.problem = 'write_failed'; });
+  }
+
+  private async write(replace: boolean): Promise<void> {
+    if (!replace) {
+      const stored = await this.storage.load(STORAGE_KEY);
+      if (stored !== null && stored !== this.lastStored) {
+        // Someone else saved since we last looked: keep the progress of both
+        const theirs = await this.read(stored);
+        if (theirs) {
+          this.data = mergeSaves(this.data, theirs);
+          this.trimGhosts();
+          this.trimHeatmap();
+          this.trimHistory();
+        }
+      }
+    }
+    const text = serializeSave(this.data);
+    await this.storage.save(STORAGE_KEY, text);
+    this.lastStored = text;
   }
 }
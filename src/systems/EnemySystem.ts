@@ -0,0 +1,284 @@
+import Phaser from 'phaser';
+import * as C from '../constants';
+import { EnemyTypeId, enemyTypes } from '../data/enemyTypes';
+import { EnemySpawnDef } from '../data/stageData';
+import { FragmentSystem } from './FragmentSystem';
+import { SeededRandom } from './SeededRandom';
+import { SimClock } from './SimClock';
+
+export interface Enemy {
+  id: number;
+  type: EnemyTypeId;
+  body: MatterJS.BodyType;
+  graphics: Phaser.GameObjects.Ellipse;
+  eye: Phaser.GameObjects.Arc;
+  level: number;
+  fragmentsEaten: number;
+  fleshLeft: number;
+  dir: number;                  // -1 left, 1 right
+  stunnedUntil: number;
+  anchorX: number;              // spawn point, patrol center for flyers
+  anchorY: number;
+  phase: number;                // flyers: patrol phase offset in radians
+}
+
+export type EnemyLevelUpCallback = (enemy: Enemy) => void;
+
+/** Shortest distance from point (px, py) to segment (ax, ay)-(bx, by). */
+function distanceToSegment(px: number, py: number, ax: number, ay: number, bx: number, by: number): number {
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lenSq = dx * dx + dy * dy;
+  const t = lenSq > 0 ? Phaser.Math.Clamp(((px - ax) * dx + (py - ay) * dy) / lenSq, 0, 1) : 0;
+  return Phaser.Math.Distance.Between(px, py, ax + t * dx, ay + t * dy);
+}
+
+/**
+ * Spawns and drives enemies. Walkers chase the player, go after scattered
+ * fragments and level up as they eat them; flyers patrol around their spawn.
+ */
+export class EnemySystem {
+  private scene: Phaser.Scene;
+  private fragments: FragmentSystem;
+  private rng: SeededRandom;
+  private clock: SimClock;
+  private enemies: Enemy[] = [];
+  private platformBodies: MatterJS.BodyType[] | null = null;
+  private levelUpCallbacks: EnemyLevelUpCallback[] = [];
+  private nextId = 1;
+
+  constructor(scene: Phaser.Scene, fragments: FragmentSystem, rng: SeededRandom, clock: SimClock) {
+    this.scene = scene;
+    this.fragments = fragments;
+    this.rng = rng;
+    this.clock = clock;
+  }
+
+  spawn(def: EnemySpawnDef): Enemy {
+    const et = enemyTypes[def.type];
+    const level = et.levels[0];
+
+    // Flyers pass through terrain and only register contacts
+    const body = this.scene.matter.add.circle(def.x, def.y, et.radius, {
+      label: 'enemy',
+      friction: 0.1,
+      frictionAir: et.flying ? 0.05 : 0.02,
+      restitution: 0.05,
+      isSensor: et.flying,
+      ignoreGravity: et.flying,
+    }) as unknown as MatterJS.BodyType;
+    this.scene.matter.body.setInertia(body, Infinity);
+
+    const graphics = this.scene.add.ellipse(def.x, def.y, et.radius * 2.6, et.radius * 1.8, level.color, 1)
+      .setStrokeStyle(2, 0x000000, 0.5)
+      .setDepth(15);
+    const eye = this.scene.add.circle(def.x, def.y, 2, 0xffffff, 1).setDepth(16);
+
+    const enemy: Enemy = {
+      id: this.nextId++,
+      type: def.type,
+      body,
+      graphics,
+      eye,
+      level: 0,
+      fragmentsEaten: 0,
+      fleshLeft: et.fleshDrops,
+      dir: 1,
+      stunnedUntil: 0,
+      anchorX: def.x,
+      anchorY: def.y,
+      phase: this.rng.between(0, Math.PI * 2),
+    };
+    this.enemies.push(enemy);
+    return enemy;
+  }
+
+  /** Register a callback that fires when an enemy levels up. */
+  onLevelUp(callback: EnemyLevelUpCallback): void {
+    this.levelUpCallbacks.push(callback);
+  }
+
+  getEnemies(): readonly Enemy[] {
+    return this.enemies;
+  }
+
+  /** Find the enemy owning a Matter body (or one of its parts). */
+  getByBody(body: MatterJS.BodyType): Enemy | null {
+    return this.enemies.find((e) => e.body === body || e.body === body.parent) ?? null;
+  }
+
+  /** Contact damage at the enemy's current level. */
+  getContactDamage(enemy: Enemy): number {
+    const et = enemyTypes[enemy.type];
+    return Math.round(et.contactDamage * et.levels[enemy.level].damageMultiplier);
+  }
+
+  /** Push an enemy away and stop it from moving on its own for a moment. */
+  knockback(enemy: Enemy, vx: number, vy: number): void {
+    this.scene.matter.body.setVelocity(enemy.body, { x: vx, y: vy });
+    enemy.stunnedUntil = this.clock.now + C.ENEMY_STUN_MS;
+  }
+
+  /** Take one piece of flesh off a driven-off enemy. Returns false once it has none left. */
+  shedFlesh(enemy: Enemy): boolean {
+    if (enemy.fleshLeft <= 0) return false;
+    enemy.fleshLeft--;
+    return true;
+  }
+
+  /** First rope-cutting enemy touching the segment (ax, ay)-(bx, by), or null. */
+  findRopeCutter(ax: number, ay: number, bx: number, by: number): Enemy | null {
+    for (const enemy of this.enemies) {
+      const et = enemyTypes[enemy.type];
+      if (!et.cutsRope) continue;
+      const radius = et.radius * et.levels[enemy.level].scale;
+      const { x, y } = enemy.body.position;
+      if (distanceToSegment(x, y, ax, ay, bx, by) <= radius) return enemy;
+    }
+    return null;
+  }
+
+  update(playerX: number, playerY: number): void {
+    const now = this.clock.now;
+    for (const enemy of this.enemies) {
+      const et = enemyTypes[enemy.type];
+      if (et.eatsFragments) {
+        this.eatFragments(enemy);
+      }
+      if (now >= enemy.stunnedUntil) {
+        if (et.flying) {
+          this.patrol(enemy);
+        } else {
+          this.steer(enemy, playerX, playerY);
+        }
+      }
+      this.syncVisuals(enemy);
+    }
+  }
+
+  /** Flyers trace a figure-eight around their anchor. */
+  private patrol(enemy: Enemy): void {
+    const et = enemyTypes[enemy.type];
+    const level = et.levels[enemy.level];
+    const t = (this.clock.now / 1000) * et.speed * level.speedMultiplier + enemy.phase;
+    const tx = enemy.anchorX + Math.sin(t) * et.patrolRange;
+    const ty = enemy.anchorY + Math.sin(t * 2) * et.patrolRange * 0.3;
+
+    // Steer toward the path point so knocked-back flyers drift back
+    const { x, y } = enemy.body.position;
+    const vx = Phaser.Math.Clamp((tx - x) * 0.1, -4, 4);
+    const vy = Phaser.Math.Clamp((ty - y) * 0.1, -4, 4);
+    this.scene.matter.body.setVelocity(enemy.body, { x: vx, y: vy });
+    if (Math.abs(vx) > 0.05) enemy.dir = Math.sign(vx);
+  }
+
+  private steer(enemy: Enemy, playerX: number, playerY: number): void {
+    const et = enemyTypes[enemy.type];
+    const level = et.levels[enemy.level];
+    const { x, y } = enemy.body.position;
+    const radius = et.radius * level.scale;
+
+    // Fragments first, then the player, otherwise patrol
+    let targetX: number | null = null;
+    let targetY = y;
+    const frag = this.fragments.findNearest(x, y, et.fragmentSeekRange);
+    if (frag) {
+      targetX = frag.body.position.x;
+      targetY = frag.body.position.y;
+    } else if (Math.abs(playerX - x) < et.aggroRange && Math.abs(playerY - y) < 120) {
+      targetX = playerX;
+      targetY = playerY;
+    }
+
+    if (targetX !== null) {
+      if (Math.abs(targetX - x) < 4) {
+        this.walk(enemy, 0);
+        return;
+      }
+      enemy.dir = Math.sign(targetX - x);
+    }
+
+    // Stay on the current platform unless the target is below
+    const grounded = this.hasGround(x, y + radius + 2);
+    const groundAhead = this.hasGround(x + enemy.dir * (radius + 4), y + radius + 6);
+    if (grounded && !groundAhead && targetY <= y + 40) {
+      if (targetX !== null) {
+        this.walk(enemy, 0);
+        return;
+      }
+      enemy.dir = -enemy.dir;
+    }
+
+    this.walk(enemy, enemy.dir * et.speed * level.speedMultiplier);
+  }
+
+  private walk(enemy: Enemy, vx: number): void {
+    this.scene.matter.body.setVelocity(enemy.body, { x: vx, y: enemy.body.velocity.y });
+  }
+
+  private eatFragments(enemy: Enemy): void {
+    const et = enemyTypes[enemy.type];
+    const radius = et.radius * et.levels[enemy.level].scale;
+    const eaten = this.fragments.takeNear(enemy.body.position.x, enemy.body.position.y, radius);
+    if (eaten.length === 0) return;
+
+    enemy.fragmentsEaten += eaten.length;
+    while (
+      enemy.level < et.levels.length - 1
+      && enemy.fragmentsEaten >= et.levelUpFragments[enemy.level + 1]
+    ) {
+      this.levelUp(enemy);
+    }
+  }
+
+  private levelUp(enemy: Enemy): void {
+    const et = enemyTypes[enemy.type];
+    const prev = et.levels[enemy.level];
+    enemy.level++;
+    const next = et.levels[enemy.level];
+
+    if (next.scale !== prev.scale) {
+      const s = next.scale / prev.scale;
+      this.scene.matter.body.scale(enemy.body, s, s);
+      enemy.graphics.setSize(et.radius * 2.6 * next.scale, et.radius * 1.8 * next.scale);
+    }
+    enemy.graphics.setFillStyle(next.color, 1);
+
+    // Level-up pulse
+    this.scene.tweens.add({
+      targets: enemy.graphics,
+      scaleX: 1.5,
+      scaleY: 1.5,
+      duration: 150,
+      yoyo: true,
+      ease: 'Sine.easeOut',
+    });
+
+    for (const cb of this.levelUpCallbacks) {
+      cb(enemy);
+    }
+  }
+
+  private syncVisuals(enemy: Enemy): void {
+    const et = enemyTypes[enemy.type];
+    const { x, y } = enemy.body.position;
+    const scale = et.levels[enemy.level].scale;
+    enemy.graphics.setPosition(x, y);
+    enemy.eye.setPosition(x + enemy.dir * et.radius * 0.7 * scale, y - et.radius * 0.3 * scale);
+
+    // Flyers flap; frenzied walkers jitter
+    if (et.flying) {
+      enemy.graphics.setScale(1, 0.7 + Math.abs(Math.sin(this.clock.now / 60)) * 0.3);
+    } else if (enemy.level > 0 && enemy.level === et.levels.length - 1) {
+      enemy.graphics.setAngle(Math.sin(this.clock.now / 40) * 6);
+    }
+  }
+
+  private hasGround(x: number, y: number): boolean {
+    if (!this.platformBodies) {
+      this.platformBodies = (this.scene.matter.world.getAllBodies() as MatterJS.BodyType[])
+        .filter((b) => b.label === 'platform');
+    }
+    return this.scene.matter.query.point(this.platformBodies, { x, y }).length > 0;
+  }
+}
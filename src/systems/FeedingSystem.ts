@@ -1,21 +1,40 @@
-import { FoodTypeId } from '../data/foodTypes';
-import { EvolutionNodeId, evolutionTree, ALL_NODE_IDS } from '../data/evolutionTree';
+import { FoodTypeId, ALL_FOOD_TYPE_IDS, createEmptyPoints } from '../data/foodTypes';
+import {
+  EvolutionNode, EvolutionNodeId, MixedRequirement, evolutionTree, ALL_NODE_IDS,
+} from '../data/evolutionTree';
 
 export type EvolveCallback = (nodeId: EvolutionNodeId) => void;
 
+/** Challenge rules that restrict feeding. */
+export interface FeedingRules {
+  singleFood?: boolean;         // only the first food type eaten can be eaten
+  noEvolve?: boolean;           // points accumulate but never evolve
+}
+
 /**
  * Tracks food points per type and automatically triggers evolution
- * when thresholds are met.
+ * when thresholds (or mixed-diet requirements) are met.
  */
 export class FeedingSystem {
-  private points: Record<FoodTypeId, number> = { dust: 0, sap: 0 };
+  private points: Record<FoodTypeId, number> = createEmptyPoints();
   private activeEvolutions: Set<EvolutionNodeId> = new Set();
   private evolveCallbacks: EvolveCallback[] = [];
+  private firstFood: FoodTypeId | null = null;
 
-  /** Add food points and check for new evolutions. */
-  consume(foodTypeId: FoodTypeId, amount: number): void {
+  constructor(private readonly rules: FeedingRules = {}) {}
+
+  /** Add food points and check for new evolutions. Returns false if the rules forbid this food. */
+  consume(foodTypeId: FoodTypeId, amount: number): boolean {
+    if (!this.canEat(foodTypeId)) return false;
+    this.firstFood ??= foodTypeId;
     this.points[foodTypeId] += amount;
-    this.checkEvolutions(foodTypeId);
+    this.checkEvolutions();
+    return true;
+  }
+
+  /** Whether the feeding rules allow eating this food type now. */
+  canEat(foodTypeId: FoodTypeId): boolean {
+    return !this.rules.singleFood || this.firstFood === null || this.firstFood === foodTypeId;
   }
 
   /** Register a callback that fires when an evolution is gained. */
@@ -28,7 +47,7 @@ export class FeedingSystem {
     return this.activeEvolutions.has(nodeId);
   }
 
-  /** Get all active evolution node IDs. */
+  /** Get all active evolution node IDs, in the order they were gained. */
   getActiveEvolutions(): EvolutionNodeId[] {
     return Array.from(this.activeEvolutions);
   }
@@ -38,28 +57,94 @@ export class FeedingSystem {
     return this.points[foodTypeId];
   }
 
+  /** Get food points summed over all types. */
+  getTotalPoints(): number {
+    let total = 0;
+    for (const id of ALL_FOOD_TYPE_IDS) total += this.points[id];
+    return total;
+  }
+
+  /** Food type with the most points, or null when nothing has been eaten. */
+  getDominantFood(): FoodTypeId | null {
+    let best: FoodTypeId | null = null;
+    for (const id of ALL_FOOD_TYPE_IDS) {
+      if (this.points[id] > 0 && (best === null || this.points[id] > this.points[best])) {
+        best = id;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Remove up to `amount` points of a food type and return how many were removed.
+   * Active evolutions are kept; only progress toward the next node is lost.
+   */
+  drain(foodTypeId: FoodTypeId, amount: number): number {
+    const removed = Math.min(this.points[foodTypeId], Math.max(0, amount));
+    this.points[foodTypeId] -= removed;
+    return removed;
+  }
+
+  /** Share of total intake for a food type (0 when nothing has been eaten). */
+  getRatio(foodTypeId: FoodTypeId): number {
+    const total = this.getTotalPoints();
+    return total > 0 ? this.points[foodTypeId] / total : 0;
+  }
+
   /** Reset all state for a new run. */
   reset(): void {
-    this.points = { dust: 0, sap: 0 };
+    this.points = createEmptyPoints();
     this.activeEvolutions.clear();
+    this.firstFood = null;
   }
 
-  private checkEvolutions(foodTypeId: FoodTypeId): void {
-    for (const nodeId of ALL_NODE_IDS) {
-      const node = evolutionTree[nodeId];
-      if (node.branch !== foodTypeId) continue;
-      if (this.activeEvolutions.has(nodeId)) continue;
-
-      // Previous tier must be active (or null for tier 1)
-      if (node.prev !== null && !this.activeEvolutions.has(node.prev)) continue;
+  private checkEvolutions(): void {
+    if (this.rules.noEvolve) return;
+    // Repeat until stable so a new node can unlock nodes that require it
+    let gained = true;
+    while (gained) {
+      gained = false;
+      for (const nodeId of ALL_NODE_IDS) {
+        if (this.activeEvolutions.has(nodeId)) continue;
+        if (!this.meetsRequirements(evolutionTree[nodeId])) continue;
 
-      // Check threshold
-      if (this.points[foodTypeId] >= node.threshold) {
         this.activeEvolutions.add(nodeId);
+        gained = true;
         for (const cb of this.evolveCallbacks) {
           cb(nodeId);
         }
       }
     }
   }
+
+  private meetsRequirements(node: EvolutionNode): boolean {
+    if (node.branch === 'mixed') {
+      return node.mixed !== undefined
+        && this.getTotalPoints() >= node.threshold
+        && this.meetsMixedRequirement(node.mixed);
+    }
+
+    // Previous tier must be active (or null for tier 1)
+    if (node.prev !== null && !this.activeEvolutions.has(node.prev)) return false;
+
+    return this.points[node.branch] >= node.threshold;
+  }
+
+  private meetsMixedRequirement(req: MixedRequirement): boolean {
+    for (const nodeId of req.prereqs) {
+      if (!this.activeEvolutions.has(nodeId)) return false;
+    }
+
+    for (const foodTypeId of ALL_FOOD_TYPE_IDS) {
+      const min = req.minPoints[foodTypeId];
+      if (min !== undefined && this.points[foodTypeId] < min) return false;
+
+      const window = req.ratios?.[foodTypeId];
+      if (window) {
+        const ratio = this.getRatio(foodTypeId);
+        if (ratio < window.min || ratio > window.max) return false;
+      }
+    }
+    return true;
+  }
 }
@@ -0,0 +1,144 @@
+import Phaser from 'phaser';
+import * as C from '../constants';
+import { foodTypes, FoodTypeId } from '../data/foodTypes';
+import { SeededRandom } from './SeededRandom';
+import { SimClock } from './SimClock';
+
+export interface Fragment {
+  id: number;
+  type: FoodTypeId;
+  refund: number;               // food points returned to whoever eats it
+  body: MatterJS.BodyType;
+  graphics: Phaser.GameObjects.Arc;
+  spawnTime: number;
+}
+
+/**
+ * Food fragments scattered when the player takes fall damage.
+ * Fragments are physical (they bounce on platforms but pass through the
+ * player), expire after FRAGMENT_LIFETIME_MS, and can be taken by the
+ * player or by anything else that eats them (e.g. enemies).
+ */
+export class FragmentSystem {
+  private scene: Phaser.Scene;
+  private rng: SeededRandom;
+  private clock: SimClock;
+  private fragments: Fragment[] = [];
+  private nextId = 1;
+
+  constructor(scene: Phaser.Scene, rng: SeededRandom, clock: SimClock) {
+    this.scene = scene;
+    this.rng = rng;
+    this.clock = clock;
+  }
+
+  /** Throw `count` fragments of a food type out from (x, y). */
+  scatter(x: number, y: number, type: FoodTypeId, count: number, refundEach: number): void {
+    const ft = foodTypes[type];
+    const now = this.clock.now;
+
+    for (let i = 0; i < count; i++) {
+      const angle = -Math.PI / 2 + (this.rng.next() - 0.5) * Math.PI * 0.9;
+      const speed = this.rng.between(3, 6);
+
+      const body = this.scene.matter.add.circle(x, y, C.FRAGMENT_RADIUS, {
+        label: 'fragment',
+        friction: 0.6,
+        frictionAir: 0.01,
+        restitution: 0.3,
+        collisionFilter: {
+          category: C.CATEGORY_FRAGMENT,
+          mask: ~C.CATEGORY_PLAYER & ~C.CATEGORY_FRAGMENT,
+          group: 0,
+        },
+      }) as unknown as MatterJS.BodyType;
+      this.scene.matter.body.setVelocity(body, {
+        x: Math.cos(angle) * speed,
+        y: Math.sin(angle) * speed,
+      });
+
+      const graphics = this.scene.add.circle(x, y, C.FRAGMENT_RADIUS, ft.color, 0.9)
+        .setStrokeStyle(1, ft.glowColor, 0.9)
+        .setDepth(6);
+
+      this.fragments.push({
+        id: this.nextId++,
+        type,
+        refund: refundEach,
+        body,
+        graphics,
+        spawnTime: now,
+      });
+    }
+  }
+
+  /** Sync visuals, blink near expiry and remove expired fragments. */
+  update(): void {
+    const now = this.clock.now;
+    for (const frag of [...this.fragments]) {
+      const age = now - frag.spawnTime;
+      if (age >= C.FRAGMENT_LIFETIME_MS) {
+        this.remove(frag);
+        continue;
+      }
+
+      frag.graphics.setPosition(frag.body.position.x, frag.body.position.y);
+
+      const remaining = C.FRAGMENT_LIFETIME_MS - age;
+      if (remaining < C.FRAGMENT_FADE_MS) {
+        const blink = Math.floor(remaining / 150) % 2 === 0;
+        frag.graphics.setAlpha((blink ? 0.9 : 0.3) * (remaining / C.FRAGMENT_FADE_MS));
+      }
+    }
+  }
+
+  /** All live fragments. */
+  getFragments(): readonly Fragment[] {
+    return this.fragments;
+  }
+
+  /** Closest collectable fragment within maxDist of (x, y), or null. */
+  findNearest(x: number, y: number, maxDist: number): Fragment | null {
+    let best: Fragment | null = null;
+    let bestDist = maxDist;
+    for (const frag of this.fragments) {
+      if (!this.isCollectable(frag)) continue;
+      const dist = Phaser.Math.Distance.Between(x, y, frag.body.position.x, frag.body.position.y);
+      if (dist <= bestDist) {
+        bestDist = dist;
+        best = frag;
+      }
+    }
+    return best;
+  }
+
+  /** Remove and return every collectable fragment within radius of (x, y). */
+  takeNear(x: number, y: number, radius: number): Fragment[] {
+    const taken: Fragment[] = [];
+    for (const frag of [...this.fragments]) {
+      if (!this.isCollectable(frag)) continue;
+      const dist = Phaser.Math.Distance.Between(x, y, frag.body.position.x, frag.body.position.y);
+      if (dist > radius + C.FRAGMENT_RADIUS) continue;
+      this.remove(frag);
+      taken.push(frag);
+    }
+    return taken;
+  }
+
+  /** Remove a specific fragment. Returns false if it was already gone. */
+  take(fragment: Fragment): boolean {
+    if (!this.fragments.includes(fragment)) return false;
+    this.remove(fragment);
+    return true;
+  }
+
+  private isCollectable(frag: Fragment): boolean {
+    return this.clock.now - frag.spawnTime >= C.FRAGMENT_PICKUP_DELAY_MS;
+  }
+
+  private remove(frag: Fragment): void {
+    this.fragments = this.fragments.filter((f) => f !== frag);
+    this.scene.matter.world.remove(frag.body);
+    frag.graphics.destroy();
+  }
+}
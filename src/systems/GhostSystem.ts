@@ -0,0 +1,101 @@
+import Phaser from 'phaser';
+import * as C from '../constants';
+import { StageLayout } from '../data/stageData';
+import { GhostRecord } from './EncyclopediaSystem';
+import { hashString } from './SeededRandom';
+
+/** Ghost paths store one position every this many ticks. */
+export const GHOST_SAMPLE_TICKS = 4;
+
+/** Time gained or lost against one ghost at a section boundary. */
+export interface SplitDelta {
+  goal: string;
+  deltaTicks: number;           // negative = ahead of the ghost
+}
+
+interface Ghost {
+  record: GhostRecord;
+  sprite: Phaser.GameObjects.Arc;
+}
+
+/** Hash of the stage geometry, so ghosts can tell when the layout they raced on has changed. */
+export function layoutHash(stage: StageLayout): string {
+  const geometry = JSON.stringify([
+    stage.width, stage.height, stage.playerSpawn, stage.platforms, stage.walls,
+    stage.hookPoints, stage.goals, stage.sections.map((s) => [s.x, s.y, s.w, s.h]),
+  ]);
+  return hashString(geometry).toString(16).padStart(8, '0');
+}
+
+/**
+ * Records the live run's path for a future ghost and shows translucent
+ * ghosts of the best clears on this layout, one per goal. All times are
+ * simulation ticks, so ghosts stay in sync with SimClock.
+ */
+export class GhostSystem {
+  private scene: Phaser.Scene;
+  private ghosts: Ghost[];
+  private path: number[] = [];
+  private splits: number[];
+
+  constructor(scene: Phaser.Scene, stage: StageLayout, records: GhostRecord[]) {
+    this.scene = scene;
+    this.splits = stage.sections.map(() => -1);
+    this.ghosts = records.map((record) => {
+      const color = record.goal === 'goal_near' ? C.COLOR_GOAL : C.COLOR_GOAL_FAR;
+      const sprite = this.scene.add.circle(record.path[0] ?? 0, record.path[1] ?? 0, C.PLAYER_RADIUS, color, 0.3)
+        .setStrokeStyle(2, color, 0.5)
+        .setDepth(18);
+      return { record, sprite };
+    });
+  }
+
+  /** Whether there is any ghost to race. */
+  hasGhosts(): boolean {
+    return this.ghosts.length > 0;
+  }
+
+  /** Sample the live player position. Call once per simulated tick. */
+  recordTick(tick: number, x: number, y: number): void {
+    if (tick % GHOST_SAMPLE_TICKS !== 0) return;
+    this.path.push(Math.round(x), Math.round(y));
+  }
+
+  /**
+   * Note the player entering a section. The first entry into each section
+   * is a split; returns how far ahead or behind each ghost the player is.
+   * The section the run starts in (entered on tick 0) is the origin, like
+   * in SplitTimer, so it is never compared.
+   */
+  enterSection(index: number, tick: number): SplitDelta[] {
+    if (this.splits[index] !== -1) return [];
+    this.splits[index] = tick;
+    if (tick === 0) return [];
+    return this.ghosts
+      .filter((g) => (g.record.splits[index] ?? -1) !== -1)
+      .map((g) => ({ goal: g.record.goal, deltaTicks: tick - g.record.splits[index] }));
+  }
+
+  /** Move every ghost to where its run was at `tick`. */
+  draw(tick: number): void {
+    for (const { record, sprite } of this.ghosts) {
+      const samples = record.path.length / 2;
+      if (samples === 0) continue;
+      const t = Math.min(tick / GHOST_SAMPLE_TICKS, samples - 1);
+      const i = Math.floor(t);
+      const j = Math.min(i + 1, samples - 1);
+      const f = t - i;
+      sprite.setPosition(
+        Phaser.Math.Linear(record.path[i * 2], record.path[j * 2], f),
+        Phaser.Math.Linear(record.path[i * 2 + 1], record.path[j * 2 + 1], f),
+      );
+      // Fade out once the ghost has reached its goal
+      sprite.setAlpha(tick >= record.ticks ? 0.4 : 1);
+    }
+  }
+
+  /** Ghost of the live run, to keep if it was a best clear. */
+  toRecord(levelKey: string, hash: string, goal: string, ticks: number): GhostRecord {
+    return { levelKey, layoutHash: hash, goal, ticks, splits: [...this.splits], path: [...this.path] };
+  }
+}
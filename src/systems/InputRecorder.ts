@@ -0,0 +1,129 @@
+import * as C from '../constants';
+import { ChallengeRuleId } from '../data/challenges';
+
+/** Buttons sampled every tick. Each maps to one bit of TickInput.buttons. */
+export const INPUT_BUTTONS = ['left', 'right', 'up', 'down', 'jump', 'attack'] as const;
+export type InputButton = typeof INPUT_BUTTONS[number];
+
+/** Bits of TickInput.clicks. */
+export const CLICK_PRIMARY = 1;
+export const CLICK_SECONDARY = 2;
+
+/** Everything the player did during one simulation tick. */
+export interface TickInput {
+  buttons: number;              // held buttons, see buttonBit()
+  pointerX: number;             // pointer world position
+  pointerY: number;
+  wheel: number;                // wheel notches: negative = up (reel in)
+  clicks: number;               // buttons pressed this tick, see CLICK_*
+}
+
+/** A notable moment of a run, shown on the replay timeline. */
+export interface ReplayMarker {
+  tick: number;                 // index into InputRecording.ticks
+  kind: 'evolution' | 'damage';
+  label: string;
+}
+
+/** The inputs of a whole run; replaying them on the same seed and level reproduces it. */
+export interface InputRecording {
+  seed: string;
+  levelId: string | null;       // null = stage generated from the seed
+  challenges: ChallengeRuleId[];  // restriction rules the run was played under
+  ticks: TickInput[];
+  markers: ReplayMarker[];
+  fingerprint: string | null;   // state the run ended in, to verify a replay
+}
+
+export function buttonBit(button: InputButton): number {
+  return 1 << INPUT_BUTTONS.indexOf(button);
+}
+
+/** An input with nothing held or pressed. */
+export function idleInput(pointerX = 0, pointerY = 0): TickInput {
+  return { buttons: 0, pointerX, pointerY, wheel: 0, clicks: 0 };
+}
+
+/**
+ * Longest run that is recorded, and longest replay file accepted: four
+ * hours of play, far beyond any real run.
+ */
+export const MAX_REPLAY_TICKS = Math.round((4 * 60 * 60 * 1000) / C.PHYSICS_FRAME_MS);
+
+/**
+ * Collects the input of every tick of a live run. A run longer than
+ * MAX_REPLAY_TICKS is not kept: its recording never finishes.
+ */
+export class InputRecorder {
+  private ticks: TickInput[] = [];
+  private markers: ReplayMarker[] = [];
+  private fingerprint: string | null = null;
+  private tooLong = false;
+
+  constructor(
+    private readonly seed: string,
+    private readonly levelId: string | null,
+    private readonly challenges: ChallengeRuleId[],
+  ) {}
+
+  record(input: TickInput): void {
+    if (this.fingerprint !== null || this.tooLong) return;
+    if (this.ticks.length >= MAX_REPLAY_TICKS) {
+      // Drop the input so far too: a replay that can't be completed is useless
+      this.tooLong = true;
+      this.ticks = [];
+      this.markers = [];
+      return;
+    }
+    this.ticks.push(input);
+  }
+
+  /** Mark the tick being simulated. */
+  mark(kind: ReplayMarker['kind'], label: string): void {
+    if (this.fingerprint !== null || this.tooLong || this.ticks.length === 0) return;
+    this.markers.push({ tick: this.ticks.length - 1, kind, label });
+  }
+
+  /** Seal the recording with the state the run ended in. */
+  finish(fingerprint: string): void {
+    if (this.tooLong) return;
+    this.fingerprint ??= fingerprint;
+  }
+
+  isFinished(): boolean {
+    return this.fingerprint !== null;
+  }
+
+  getRecording(): InputRecording {
+    return {
+      seed: this.seed,
+      levelId: this.levelId,
+      challenges: [...this.challenges],
+      ticks: [...this.ticks],
+      markers: [...this.markers],
+      fingerprint: this.fingerprint,
+    };
+  }
+}
+
+/** Feeds a recording back one tick at a time. */
+export class InputPlayback {
+  private index = 0;
+
+  constructor(readonly recording: InputRecording) {}
+
+  /** Ticks played so far. */
+  get position(): number {
+    return this.index;
+  }
+
+  /** Input for the next tick, or null once the recording has run out. */
+  next(): TickInput | null {
+    if (this.index >= this.recording.ticks.length) return null;
+    return this.recording.ticks[this.index++];
+  }
+
+  isFinished(): boolean {
+    return this.index >= this.recording.ticks.length;
+  }
+}
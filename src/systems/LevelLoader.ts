@@ -0,0 +1,368 @@
+import {
+  AreaDef, EnemySpawnDef, FoodItemDef, GoalDef, HookPointDef, PlacedSection, PlatformDef, PointDef, StageLayout,
+} from '../data/stageData';
+import { ALL_FOOD_TYPE_IDS, FoodTypeId } from '../data/foodTypes';
+import { enemyTypes } from '../data/enemyTypes';
+import { ALL_BIOME_IDS, BiomeId } from '../data/biomes';
+import { ALL_NODE_IDS, EvolutionNodeId } from '../data/evolutionTree';
+
+export const LEVEL_FORMAT_VERSION = 1;
+
+/** Goal labels GameScene knows how to score. */
+const GOAL_LABELS = ['goal_near', 'goal_far'];
+
+/**
+ * JSON level file. Platforms and goals are given by their center, like in
+ * StageLayout; sections and areas by their top-left corner.
+ */
+export interface LevelFile {
+  version: number;
+  id: string;
+  name: string;
+  width: number;
+  height: number;
+  biome?: BiomeId;              // used when `sections` is omitted (default: spore_shallows)
+  playerSpawn: PointDef;
+  dustSpawnArea?: AreaDef;      // omitted = no dust respawn
+  platforms: PlatformDef[];
+  walls?: PlatformDef[];        // may extend outside the world bounds
+  hookPoints: HookPointDef[];
+  foodItems: FoodItemDef[];
+  recoveryPoints: PointDef[];
+  enemySpawns?: EnemySpawnDef[];
+  goals: GoalDef[];
+  sections?: PlacedSection[];
+}
+
+export interface LevelIssue {
+  path: string;                 // e.g. "goals[1].w"
+  message: string;
+}
+
+export class LevelValidationError extends Error {
+  readonly issues: LevelIssue[];
+
+  constructor(issues: LevelIssue[]) {
+    super(`Invalid level:\n${issues.map((i) => `  ${i.path}: ${i.message}`).join('\n')}`);
+    this.name = 'LevelValidationError';
+    this.issues = issues;
+  }
+}
+
+type Json = Record<string, unknown>;
+
+function isObject(value: unknown): value is Json {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+/** Overlap test for two center-based rectangles. */
+function rectsOverlap(a: PlatformDef, b: PlatformDef): boolean {
+  return Math.abs(a.x - b.x) * 2 < a.w + b.w && Math.abs(a.y - b.y) * 2 < a.h + b.h;
+}
+
+function pointInRect(p: PointDef, r: PlatformDef): boolean {
+  return Math.abs(p.x - r.x) * 2 < r.w && Math.abs(p.y - r.y) * 2 < r.h;
+}
+
+/** Collects every problem in a level file instead of stopping at the first. */
+class LevelValidator {
+  readonly issues: LevelIssue[] = [];
+  private width = 0;
+  private height = 0;
+
+  validate(data: unknown): void {
+    if (!isObject(data)) {
+      this.fail('', 'level must be a JSON object');
+      return;
+    }
+
+    if (data.version !== LEVEL_FORMAT_VERSION) {
+      this.fail('version', `unsupported version ${JSON.stringify(data.version)} (expected ${LEVEL_FORMAT_VERSION})`);
+    }
+    this.string(data, 'id', '');
+    this.string(data, 'name', '');
+    const hasWidth = this.positive(data, 'width', '');
+    const hasHeight = this.positive(data, 'height', '');
+    if (hasWidth && hasHeight) {
+      this.width = data.width as number;
+      this.height = data.height as number;
+    }
+    if (data.biome !== undefined && !ALL_BIOME_IDS.includes(data.biome as BiomeId)) {
+      this.fail('biome', `unknown biome ${JSON.stringify(data.biome)}`);
+    }
+
+    const platforms = this.list(data, 'platforms', (item, path) => this.rect(item, path, true));
+    this.list(data, 'walls', (item, path) => this.rect(item, path, false), true);
+    this.list(data, 'hookPoints', (item, path) => {
+      if (!this.point(item, path)) return;
+      const mimic = (item as Json).mimic;
+      if (mimic !== undefined && typeof mimic !== 'boolean') this.fail(`${path}.mimic`, 'must be true or false');
+    });
+    this.list(data, 'foodItems', (item, path) => {
+      if (!this.point(item, path)) return;
+      const type = (item as Json).type;
+      if (!ALL_FOOD_TYPE_IDS.includes(type as FoodTypeId)) {
+        this.fail(`${path}.type`, `unknown food type ${JSON.stringify(type)}`);
+      }
+    });
+    this.list(data, 'recoveryPoints', (item, path) => this.point(item, path));
+    this.list(data, 'enemySpawns', (item, path) => {
+      if (!this.point(item, path)) return;
+      const type = (item as Json).type;
+      if (typeof type !== 'string' || !(type in enemyTypes)) {
+        this.fail(`${path}.type`, `unknown enemy type ${JSON.stringify(type)}`);
+      }
+    }, true);
+    this.sections(data);
+
+    if (this.point(data.playerSpawn, 'playerSpawn')) {
+      const spawn = data.playerSpawn as PointDef;
+      platforms.forEach((p, i) => {
+        if (isObject(p) && pointInRect(spawn, p as unknown as PlatformDef)) {
+          this.fail('playerSpawn', `inside platforms[${i}]`);
+        }
+      });
+    }
+    if (data.dustSpawnArea !== undefined) this.area(data.dustSpawnArea, 'dustSpawnArea');
+
+    this.goals(data, platforms);
+  }
+
+  private goals(data: Json, platforms: unknown[]): void {
+    const goals = this.list(data, 'goals', (item, path) => {
+      if (!this.rect(item, path, true)) return;
+      const goal = item as Json;
+      if (!GOAL_LABELS.includes(goal.label as string)) {
+        this.fail(`${path}.label`, `must be one of ${GOAL_LABELS.join(', ')}`);
+      }
+      this.string(goal, 'name', path);
+      if (!Number.isInteger(goal.stars) || (goal.stars as number) < 0) {
+        this.fail(`${path}.stars`, 'must be a non-negative integer');
+      }
+    });
+    if (Array.isArray(data.goals) && goals.length === 0) {
+      this.fail('goals', 'level needs at least one goal');
+    }
+
+    // Records and ghosts are kept per goal label, so each label may appear once
+    const labels = new Set<unknown>();
+    goals.forEach((goal, i) => {
+      if (!isObject(goal) || !GOAL_LABELS.includes(goal.label as string)) return;
+      if (labels.has(goal.label)) this.fail(`goals[${i}].label`, `duplicate goal label ${JSON.stringify(goal.label)}`);
+      labels.add(goal.label);
+    });
+
+    // A goal may not overlap terrain or another goal
+    const valid = (r: unknown): r is PlatformDef =>
+      isObject(r) && [r.x, r.y, r.w, r.h].every(isNumber);
+    goals.forEach((goal, i) => {
+      if (!valid(goal)) return;
+      platforms.forEach((p, j) => {
+        if (valid(p) && rectsOverlap(goal, p)) this.fail(`goals[${i}]`, `overlaps platforms[${j}]`);
+      });
+      for (let j = i + 1; j < goals.length; j++) {
+        const other = goals[j];
+        if (valid(other) && rectsOverlap(goal, other)) this.fail(`goals[${i}]`, `overlaps goals[${j}]`);
+      }
+    });
+  }
+
+  /** Optional, but when given every run needs a start section, and splits need unique IDs. */
+  private sections(data: Json): void {
+    const sections = this.list(data, 'sections', (item, path) => this.section(item, path), true);
+    if (Array.isArray(data.sections) && sections.length === 0) {
+      this.fail('sections', 'must not be empty (omit it for a single whole-world section)');
+    }
+    const seen = new Set<unknown>();
+    sections.forEach((section, i) => {
+      if (!isObject(section) || typeof section.id !== 'string') return;
+      if (seen.has(section.id)) this.fail(`sections[${i}].id`, `duplicate section id ${JSON.stringify(section.id)}`);
+      seen.add(section.id);
+    });
+  }
+
+  private section(item: unknown, path: string): void {
+    if (!this.area(item, path)) return;
+    const section = item as Json;
+    this.string(section, 'id', path);
+    this.string(section, 'name', path);
+    if (!isNumber(section.tier)) this.fail(`${path}.tier`, 'must be a number');
+    if (!ALL_BIOME_IDS.includes(section.biome as BiomeId)) {
+      this.fail(`${path}.biome`, `unknown biome ${JSON.stringify(section.biome)}`);
+    }
+    if (section.requires !== undefined) {
+      if (!Array.isArray(section.requires)) {
+        this.fail(`${path}.requires`, 'must be an array of evolution IDs');
+      } else {
+        section.requires.forEach((id, i) => {
+          if (!ALL_NODE_IDS.includes(id as EvolutionNodeId)) {
+            this.fail(`${path}.requires[${i}]`, `unknown evolution ${JSON.stringify(id)}`);
+          }
+        });
+      }
+    }
+  }
+
+  /** Array field; runs `check` on every element and returns the array (or []). */
+  private list(
+    data: Json,
+    key: string,
+    check: (item: unknown, path: string) => void,
+    optional = false,
+  ): unknown[] {
+    const value = data[key];
+    if (value === undefined && optional) return [];
+    if (!Array.isArray(value)) {
+      this.fail(key, 'must be an array');
+      return [];
+    }
+    value.forEach((item, i) => check(item, `${key}[${i}]`));
+    return value;
+  }
+
+  /** Point inside the world bounds. */
+  private point(value: unknown, path: string): boolean {
+    if (!isObject(value)) {
+      this.fail(path, 'must be an object with x and y');
+      return false;
+    }
+    if (!isNumber(value.x) || !isNumber(value.y)) {
+      this.fail(path, 'x and y must be numbers');
+      return false;
+    }
+    if (this.width > 0 && (value.x < 0 || value.x > this.width || value.y < 0 || value.y > this.height)) {
+      this.fail(path, `(${value.x}, ${value.y}) is outside the world (${this.width}x${this.height})`);
+    }
+    return true;
+  }
+
+  /** Center-based rectangle, optionally required to lie inside the world. */
+  private rect(value: unknown, path: string, inBounds: boolean): boolean {
+    if (!isObject(value)) {
+      this.fail(path, 'must be an object with x, y, w and h');
+      return false;
+    }
+    if (![value.x, value.y, value.w, value.h].every(isNumber)) {
+      this.fail(path, 'x, y, w and h must be numbers');
+      return false;
+    }
+    const r = value as unknown as PlatformDef;
+    if (r.w <= 0 || r.h <= 0) {
+      this.fail(path, 'w and h must be positive');
+      return false;
+    }
+    if (inBounds && this.width > 0 && (
+      r.x - r.w / 2 < 0 || r.x + r.w / 2 > this.width || r.y - r.h / 2 < 0 || r.y + r.h / 2 > this.height
+    )) {
+      this.fail(path, `extends outside the world (${this.width}x${this.height})`);
+    }
+    return true;
+  }
+
+  /** Top-left based area inside the world. */
+  private area(value: unknown, path: string): boolean {
+    if (!isObject(value) || ![value.x, value.y, value.w, value.h].every(isNumber)) {
+      this.fail(path, 'x, y, w and h must be numbers');
+      return false;
+    }
+    const a = value as unknown as AreaDef;
+    if (a.w < 0 || a.h < 0) {
+      this.fail(path, 'w and h must not be negative');
+      return false;
+    }
+    if (this.width > 0 && (a.x < 0 || a.y < 0 || a.x + a.w > this.width || a.y + a.h > this.height)) {
+      this.fail(path, `extends outside the world (${this.width}x${this.height})`);
+    }
+    return true;
+  }
+
+  private string(data: Json, key: string, parent: string): void {
+    if (typeof data[key] !== 'string' || data[key] === '') {
+      this.fail(parent ? `${parent}.${key}` : key, 'must be a non-empty string');
+    }
+  }
+
+  private positive(data: Json, key: string, parent: string): boolean {
+    if (!isNumber(data[key]) || (data[key] as number) <= 0) {
+      this.fail(parent ? `${parent}.${key}` : key, 'must be a positive number');
+      return false;
+    }
+    return true;
+  }
+
+  private fail(path: string, message: string): void {
+    this.issues.push({ path: path || '(root)', message });
+  }
+}
+
+/** All problems in `data` as a level file; empty when it is valid. */
+export function validateLevel(data: unknown): LevelIssue[] {
+  const validator = new LevelValidator();
+  validator.validate(data);
+  return validator.issues;
+}
+
+/** Parse and validate level JSON. Throws LevelValidationError listing every problem. */
+export function parseLevel(text: string): LevelFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new LevelValidationError([{ path: '(root)', message: `not valid JSON: ${(e as Error).message}` }]);
+  }
+  const issues = validateLevel(data);
+  if (issues.length > 0) throw new LevelValidationError(issues);
+  return data as LevelFile;
+}
+
+/** Turn a validated level file into the layout GameScene builds from. */
+export function levelToStage(level: LevelFile): StageLayout {
+  const sections: PlacedSection[] = level.sections ?? [{
+    id: level.id,
+    name: level.name,
+    tier: 0,
+    biome: level.biome ?? 'spore_shallows',
+    x: 0, y: 0, w: level.width, h: level.height,
+  }];
+
+  return {
+    width: level.width,
+    height: level.height,
+    playerSpawn: { ...level.playerSpawn },
+    dustSpawnArea: level.dustSpawnArea ? { ...level.dustSpawnArea } : null,
+    platforms: level.platforms.map((p) => ({ ...p })),
+    walls: (level.walls ?? []).map((w) => ({ ...w })),
+    hookPoints: level.hookPoints.map((h) => ({ ...h })),
+    foodItems: level.foodItems.map((f) => ({ ...f })),
+    recoveryPoints: level.recoveryPoints.map((r) => ({ ...r })),
+    enemySpawns: (level.enemySpawns ?? []).map((e) => ({ ...e })),
+    goals: level.goals.map((g) => ({ ...g })),
+    sections: sections.map((s) => ({ ...s, requires: s.requires && [...s.requires] })),
+  };
+}
+
+/** Level file for a stage, e.g. to save a generated run as a hand-editable level. */
+export function stageToLevel(stage: StageLayout, id: string, name: string): LevelFile {
+  const level: LevelFile = {
+    version: LEVEL_FORMAT_VERSION,
+    id,
+    name,
+    width: stage.width,
+    height: stage.height,
+    playerSpawn: { ...stage.playerSpawn },
+    platforms: stage.platforms.map((p) => ({ ...p })),
+    walls: stage.walls.map((w) => ({ ...w })),
+    hookPoints: stage.hookPoints.map((h) => ({ ...h })),
+    foodItems: stage.foodItems.map((f) => ({ ...f })),
+    recoveryPoints: stage.recoveryPoints.map((r) => ({ ...r })),
+    enemySpawns: stage.enemySpawns.map((e) => ({ ...e })),
+    goals: stage.goals.map((g) => ({ ...g })),
+    sections: stage.sections.map((s) => ({ ...s, requires: s.requires && [...s.requires] })),
+  };
+  if (stage.dustSpawnArea) level.dustSpawnArea = { ...stage.dustSpawnArea };
+  return level;
+}
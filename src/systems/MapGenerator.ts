@@ -0,0 +1,221 @@
+import * as C from '../constants';
+import {
+  SectionDef, ConnectorDef, ConnectorSide, PlanStep, sectionPool, RUN_PLAN,
+} from '../data/sections';
+import { AreaDef, FoodItemDef, PlatformDef, PlacedSection, StageLayout } from '../data/stageData';
+import { biomes } from '../data/biomes';
+import { SeededRandom } from './SeededRandom';
+
+interface Placement {
+  def: SectionDef;
+  x: number;                    // top-left corner in generator space
+  y: number;
+}
+
+const OPPOSITE: Record<ConnectorSide, ConnectorSide> = {
+  top: 'bottom',
+  bottom: 'top',
+  left: 'right',
+  right: 'left',
+};
+
+/** World position of a connector's center on a placed section. */
+function connectorCenter(p: Placement, c: ConnectorDef): { x: number; y: number } {
+  const { width, height } = p.def;
+  switch (c.side) {
+    case 'top': return { x: p.x + c.offset + c.size / 2, y: p.y };
+    case 'bottom': return { x: p.x + c.offset + c.size / 2, y: p.y + height };
+    case 'left': return { x: p.x, y: p.y + c.offset + c.size / 2 };
+    case 'right': return { x: p.x + width, y: p.y + c.offset + c.size / 2 };
+  }
+}
+
+function overlaps(a: Placement, b: Placement): boolean {
+  return a.x < b.x + b.def.width && b.x < a.x + a.def.width
+    && a.y < b.y + b.def.height && b.y < a.y + a.def.height;
+}
+
+/**
+ * Builds a run's stage by stitching sections together. Each section is
+ * placed so its entry opening lines up with the previous section's exit;
+ * walls close every section edge outside its openings.
+ */
+export class MapGenerator {
+  constructor(
+    private rng: SeededRandom,
+    private pool: SectionDef[] = sectionPool,
+    private plan: PlanStep[] = RUN_PLAN,
+  ) {}
+
+  /** Random stage following the run plan. */
+  generate(): StageLayout {
+    const placements = this.fill([], 0, new Set());
+    if (!placements) {
+      throw new Error('MapGenerator: no section combination satisfies the run plan');
+    }
+    return this.assemble(placements);
+  }
+
+  /** Stage from a fixed list of section IDs, in run order. */
+  build(sectionIds: string[]): StageLayout {
+    const placements: Placement[] = [];
+    for (const id of sectionIds) {
+      const def = this.pool.find((s) => s.id === id);
+      if (!def) throw new Error(`MapGenerator: unknown section '${id}'`);
+      const placement = this.place(placements, def);
+      if (!placement) throw new Error(`MapGenerator: section '${id}' does not connect`);
+      placements.push(placement);
+    }
+    return this.assemble(placements);
+  }
+
+  /** Whether `next` can follow `prev` (null = first section). */
+  static isCompatible(prev: SectionDef | null, next: SectionDef): boolean {
+    if (prev === null) return next.entry === null;
+    if (!prev.exit || !next.entry) return false;
+    return next.entry.side === OPPOSITE[prev.exit.side] && next.entry.size === prev.exit.size;
+  }
+
+  /** Depth-first fill of the plan from `step`, trying candidates in random order. */
+  private fill(placed: Placement[], step: number, used: Set<string>): Placement[] | null {
+    if (step === this.plan.length) return placed;
+
+    const slot = this.plan[step];
+    const candidates = this.pool.filter((s) =>
+      s.tier === slot.tier
+      && s.role === slot.role
+      && slot.biomes.includes(s.biome)
+      && !used.has(s.id)
+    );
+
+    for (const def of this.rng.shuffle(candidates)) {
+      const placement = this.place(placed, def);
+      if (!placement) continue;
+
+      used.add(def.id);
+      const result = this.fill([...placed, placement], step + 1, used);
+      if (result) return result;
+      used.delete(def.id);
+    }
+    return null;
+  }
+
+  /** Position `def` after the last placement, or null if it doesn't fit. */
+  private place(placed: Placement[], def: SectionDef): Placement | null {
+    const prev = placed.length > 0 ? placed[placed.length - 1] : null;
+    if (!MapGenerator.isCompatible(prev?.def ?? null, def)) return null;
+    if (!prev) return { def, x: 0, y: 0 };
+
+    // Align the entry's center with the previous exit's center
+    const anchor = connectorCenter(prev, prev.def.exit!);
+    const local = connectorCenter({ def, x: 0, y: 0 }, def.entry!);
+    const placement: Placement = { def, x: anchor.x - local.x, y: anchor.y - local.y };
+
+    if (placed.some((p) => overlaps(p, placement))) return null;
+    return placement;
+  }
+
+  /** Translate all sections into world space with the bounding box at the origin. */
+  private assemble(placements: Placement[]): StageLayout {
+    const minX = Math.min(...placements.map((p) => p.x));
+    const minY = Math.min(...placements.map((p) => p.y));
+    const maxX = Math.max(...placements.map((p) => p.x + p.def.width));
+    const maxY = Math.max(...placements.map((p) => p.y + p.def.height));
+
+    const start = placements[0].def;
+    const stage: StageLayout = {
+      width: maxX - minX,
+      height: maxY - minY,
+      playerSpawn: { x: 0, y: 0 },
+      dustSpawnArea: { x: 0, y: 0, w: 0, h: 0 },
+      platforms: [],
+      walls: [],
+      hookPoints: [],
+      foodItems: [],
+      recoveryPoints: [],
+      enemySpawns: [],
+      goals: [],
+      sections: [],
+    };
+
+    for (const p of placements) {
+      const ox = p.x - minX;
+      const oy = p.y - minY;
+      const def = p.def;
+      const shift = <T extends { x: number; y: number }>(item: T): T => ({ ...item, x: item.x + ox, y: item.y + oy });
+
+      stage.platforms.push(...def.platforms.map(shift));
+      stage.hookPoints.push(...def.hookPoints.map(shift));
+      stage.foodItems.push(...def.foodItems.map((f): FoodItemDef => shift({
+        x: f.x,
+        y: f.y,
+        type: f.type ?? this.rng.pickWeighted(biomes[def.biome].foodWeights),
+      })));
+      stage.recoveryPoints.push(...def.recoveryPoints.map(shift));
+      stage.enemySpawns.push(...def.enemySpawns.map(shift));
+      stage.goals.push(...def.goals.map(shift));
+      stage.walls.push(...this.buildWalls(def, ox, oy, def === start));
+
+      const section: PlacedSection = {
+        id: def.id, name: def.name, tier: def.tier, biome: def.biome,
+        x: ox, y: oy, w: def.width, h: def.height,
+      };
+      if (def.requires) section.requires = [...def.requires];
+      stage.sections.push(section);
+
+      if (def === start) {
+        stage.playerSpawn = shift(def.playerSpawn ?? { x: def.width / 2, y: def.height / 2 });
+        stage.dustSpawnArea = shift(def.dustSpawnArea ?? { x: 0, y: 0, w: def.width, h: def.height });
+      }
+    }
+
+    return stage;
+  }
+
+  /**
+   * Wall strips just outside each edge of a section, leaving its openings
+   * clear. The start section's floor stays open so the death zone below
+   * the stage still catches falls.
+   */
+  private buildWalls(def: SectionDef, ox: number, oy: number, openFloor: boolean): PlatformDef[] {
+    const t = C.SECTION_WALL_THICKNESS;
+    const walls: PlatformDef[] = [];
+    const openings = [def.entry, def.exit].filter((c): c is ConnectorDef => c !== null);
+
+    const sides: ConnectorSide[] = ['top', 'bottom', 'left', 'right'];
+    for (const side of sides) {
+      if (side === 'bottom' && openFloor) continue;
+      const horizontal = side === 'top' || side === 'bottom';
+      const length = horizontal ? def.width : def.height;
+      const gaps = openings
+        .filter((c) => c.side === side)
+        .map((c) => [c.offset, c.offset + c.size] as const)
+        .sort((a, b) => a[0] - b[0]);
+
+      // Solid spans between the openings
+      const spans: [number, number][] = [];
+      let cursor = 0;
+      for (const [from, to] of gaps) {
+        if (from > cursor) spans.push([cursor, from]);
+        cursor = Math.max(cursor, to);
+      }
+      if (cursor < length) spans.push([cursor, length]);
+
+      for (const [from, to] of spans) {
+        let area: AreaDef;
+        if (side === 'top') area = { x: from, y: -t, w: to - from, h: t };
+        else if (side === 'bottom') area = { x: from, y: def.height, w: to - from, h: t };
+        else if (side === 'left') area = { x: -t, y: from, w: t, h: to - from };
+        else area = { x: def.width, y: from, w: t, h: to - from };
+
+        walls.push({
+          x: ox + area.x + area.w / 2,
+          y: oy + area.y + area.h / 2,
+          w: area.w,
+          h: area.h,
+        });
+      }
+    }
+    return walls;
+  }
+}
@@ -1,59 +1,107 @@
 import * as C from '../constants';
-import { FeedingSystem } from './FeedingSystem';
+import { EvolutionNodeId } from '../data/evolutionTree';
+import { ResolvedEffects, BASE_EFFECTS, resolveEffects } from './EffectResolver';
+
+/** Anything that knows the active evolutions, normally FeedingSystem. */
+export interface EvolutionSource {
+  getActiveEvolutions(): EvolutionNodeId[];
+}
 
 /**
  * Derives effective player stats from FeedingSystem evolution state.
+ * Every stat is read from the folded effects of all active nodes.
  */
 export class PlayerStats {
-  constructor(private feeding: FeedingSystem) {}
+  private cachedEffects: ResolvedEffects = { ...BASE_EFFECTS };
+  private cachedNodes = '';      // active node IDs the cache was resolved from
+
+  constructor(private feeding: EvolutionSource) {}
+
+  /** Resolved effects of all active nodes. */
+  get effects(): Readonly<ResolvedEffects> {
+    const active = this.feeding.getActiveEvolutions();
+    const nodes = active.join(',');
+    if (nodes !== this.cachedNodes) {
+      this.cachedEffects = resolveEffects(active);
+      this.cachedNodes = nodes;
+    }
+    return this.cachedEffects;
+  }
 
   /** Body stretch multiplier (1.0 = normal sphere). */
   get bodyStretchFactor(): number {
-    if (this.feeding.isActive('stretch_2')) return 2.0;
-    if (this.feeding.isActive('stretch_1')) return 1.5;
-    return 1.0;
+    return this.effects.bodyStretchFactor;
   }
 
   /** Surface friction. */
   get friction(): number {
-    if (this.feeding.isActive('sticky_1')) return 0.95;
-    return 0.1;
+    return this.effects.friction;
   }
 
   /** Whether basic jump is unlocked. */
   get canJump(): boolean {
-    return this.feeding.isActive('jump_1');
+    return this.effects.canJump;
   }
 
   /** Whether charged jump is unlocked. */
   get canChargedJump(): boolean {
-    return this.feeding.isActive('jump_2');
+    return this.effects.canChargedJump;
   }
 
   /** Whether grapple is unlocked. */
   get canGrapple(): boolean {
-    return this.feeding.isActive('traction_1');
+    return this.effects.canGrapple;
   }
 
   /** Grapple range (0 if not unlocked). */
   get grappleRange(): number {
     if (!this.canGrapple) return 0;
-    return C.GRAPPLE_RANGE;
+    return this.effects.grappleRange;
   }
 
   get maxHp(): number {
-    return C.MAX_HP;
+    return C.MAX_HP + this.effects.maxHpBonus;
   }
 
   get fallDamageMultiplier(): number {
-    return 1.0;
+    return this.effects.fallDamageMultiplier;
   }
 
   get airControl(): number {
-    return C.PLAYER_AIR_CONTROL;
+    return C.PLAYER_AIR_CONTROL * this.effects.airControlMultiplier;
   }
 
   get reelSpeed(): number {
-    return C.REEL_SPEED;
+    return C.REEL_SPEED * this.effects.reelSpeedMultiplier;
+  }
+
+  /** Body mass multiplier (1.0 = normal). Heavier bodies swing slower and hold momentum. */
+  get massMultiplier(): number {
+    return 1.0 + this.effects.bodyWeight;
+  }
+
+  /** Whether the knockback attack is unlocked. */
+  get canAttack(): boolean {
+    return this.effects.canAttack;
+  }
+
+  /** Attack hitbox radius (0 if not unlocked). */
+  get attackRange(): number {
+    if (!this.canAttack) return 0;
+    return this.effects.attackRange;
+  }
+
+  get attackCooldownMs(): number {
+    return C.ATTACK_COOLDOWN_MS;
+  }
+
+  /** HP absorbed for each enemy hit by an attack. */
+  get hpOnHit(): number {
+    return this.effects.hpOnHit;
+  }
+
+  /** Base jump velocity, reduced by body weight. */
+  get jumpVelocity(): number {
+    return C.PLAYER_JUMP_VELOCITY * Math.max(0.5, 1.0 - this.effects.bodyWeight * C.WEIGHT_JUMP_PENALTY);
   }
 }
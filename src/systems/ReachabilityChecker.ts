@@ -0,0 +1,323 @@
+import * as C from '../constants';
+import { foodTypes } from '../data/foodTypes';
+import { EvolutionNodeId, evolutionTree } from '../data/evolutionTree';
+import {
+  AreaDef, GoalDef, HookPointDef, PlatformDef, StageLayout, findSectionAt,
+} from '../data/stageData';
+import { FeedingSystem } from './FeedingSystem';
+import { PlayerStats } from './PlayerStats';
+
+/** The movement capabilities the checker needs from PlayerStats. */
+export type ReachStats = Pick<
+  PlayerStats,
+  'bodyStretchFactor' | 'canJump' | 'canChargedJump' | 'jumpVelocity' | 'grappleRange'
+>;
+
+/** Which stage objects can be reached with a fixed set of capabilities (index-aligned with the stage). */
+export interface ReachResult {
+  platforms: boolean[];
+  hooks: boolean[];
+  goals: boolean[];
+  foodItems: boolean[];
+  dustSpawnReachable: boolean;
+}
+
+export interface SectionReport {
+  id: string;
+  name: string;
+  reached: boolean;
+  requires: EvolutionNodeId[];
+  /** Required evolutions that the food placed before this section can't pay for. */
+  missing: EvolutionNodeId[];
+}
+
+export interface StageReport {
+  /** Evolutions a player can earn from all reachable food. */
+  evolutions: EvolutionNodeId[];
+  reach: ReachResult;
+  unreachableGoals: GoalDef[];
+  sections: SectionReport[];
+  /** Human-readable findings; empty when the stage checks out. */
+  issues: string[];
+}
+
+/** A surface the player can stand on: a platform or a wall top. */
+interface Surface {
+  left: number;
+  right: number;
+  top: number;
+}
+
+/** Dust points fed when respawning dust is reachable (enough for the whole dust branch). */
+const RESPAWN_DUST_POINTS = 50;
+
+/**
+ * Offline reachability analysis of a stage layout, used by the level
+ * editor to verify the evolutions each section is designed around.
+ *
+ * The movement model is a deliberate approximation of GameScene:
+ * - Standing on a surface, the player can roll anywhere along its top.
+ * - A surface up to `R * (2 * stretch - 1)` higher can be stepped onto
+ *   (the stretched body tips over the ledge).
+ * - Jumps are ballistic arcs under GRAVITY_Y with PLAYER_MAX_VELOCITY
+ *   horizontal speed; charged jumps use the full charge multiplier.
+ * - Hanging from a hook, the player can be anywhere in the lower half
+ *   disk of the grapple range, and can drop from anywhere across it.
+ * Walls, ceilings and enemies never block a path, so the checker errs
+ * on the side of "reachable".
+ */
+export class ReachabilityChecker {
+  private surfaces: Surface[];
+
+  constructor(private stage: StageLayout) {
+    this.surfaces = [...stage.platforms, ...stage.walls].map(toSurface);
+  }
+
+  /** Compute what a player with the given capabilities can reach. */
+  reachable(stats: ReachStats): ReachResult {
+    const m = new MovementModel(stats);
+    const surfaces = this.surfaces;
+    const hooks = this.stage.hookPoints.filter((h) => !h.mimic);
+
+    const surfaceReached = new Array<boolean>(surfaces.length).fill(false);
+    const hookReached = new Array<boolean>(hooks.length).fill(false);
+
+    // Start from the surface the player spawns above
+    const start = this.surfaceBelow(this.stage.playerSpawn.x, this.stage.playerSpawn.y);
+    const queue: Array<{ kind: 'surface' | 'hook'; index: number }> = [];
+    if (start !== -1) {
+      surfaceReached[start] = true;
+      queue.push({ kind: 'surface', index: start });
+    }
+
+    while (queue.length > 0) {
+      const node = queue.shift()!;
+      if (node.kind === 'surface') {
+        const from = surfaces[node.index];
+        surfaces.forEach((to, i) => {
+          if (!surfaceReached[i] && m.canMove(from, to)) {
+            surfaceReached[i] = true;
+            queue.push({ kind: 'surface', index: i });
+          }
+        });
+        hooks.forEach((h, i) => {
+          if (!hookReached[i] && m.canGrappleFrom(from, h)) {
+            hookReached[i] = true;
+            queue.push({ kind: 'hook', index: i });
+          }
+        });
+      } else {
+        const from = hooks[node.index];
+        hooks.forEach((h, i) => {
+          if (!hookReached[i] && m.canSwingTo(from, h)) {
+            hookReached[i] = true;
+            queue.push({ kind: 'hook', index: i });
+          }
+        });
+        surfaces.forEach((to, i) => {
+          if (!surfaceReached[i] && m.canDropTo(from, to)) {
+            surfaceReached[i] = true;
+            queue.push({ kind: 'surface', index: i });
+          }
+        });
+      }
+    }
+
+    const reachedSurfaces = surfaces.filter((_, i) => surfaceReached[i]);
+    const reachedHooks = hooks.filter((_, i) => hookReached[i]);
+    const touches = (area: AreaDef, margin: number) =>
+      reachedSurfaces.some((s) => m.surfaceTouches(s, area, margin)) ||
+      reachedHooks.some((h) => m.hookTouches(h, area, margin));
+
+    return {
+      platforms: this.stage.platforms.map((_, i) => surfaceReached[i]),
+      hooks: this.stage.hookPoints.map((h) => !h.mimic && hookReached[hooks.indexOf(h)]),
+      goals: this.stage.goals.map((g) =>
+        touches({ x: g.x - g.w / 2, y: g.y - g.h / 2, w: g.w, h: g.h }, 0)),
+      foodItems: this.stage.foodItems.map((f) =>
+        touches({ x: f.x, y: f.y, w: 0, h: 0 }, foodTypes[f.type].radius)),
+      dustSpawnReachable: this.stage.dustSpawnArea !== null && touches(this.stage.dustSpawnArea, 0),
+    };
+  }
+
+  /**
+   * Evolutions a player can earn by eating every reachable food item,
+   * repeated until new evolutions stop opening up more food.
+   * `foodFilter` limits which placed items count.
+   */
+  earnableEvolutions(foodFilter: (index: number) => boolean = () => true): {
+    evolutions: EvolutionNodeId[];
+    reach: ReachResult;
+  } {
+    let evolutions: EvolutionNodeId[] = [];
+    for (;;) {
+      const reach = this.reachable(statsFor(evolutions));
+      const feeding = new FeedingSystem();
+      this.stage.foodItems.forEach((f, i) => {
+        if (reach.foodItems[i] && foodFilter(i)) feeding.consume(f.type, foodTypes[f.type].points);
+      });
+      if (reach.dustSpawnReachable) {
+        while (feeding.getPoints('dust') < RESPAWN_DUST_POINTS) feeding.consume('dust', foodTypes.dust.points);
+      }
+      const next = feeding.getActiveEvolutions();
+      if (next.length === evolutions.length) return { evolutions, reach };
+      evolutions = next;
+    }
+  }
+
+  /** Full report: earnable evolutions, unreachable goals and per-section requirements. */
+  analyze(): StageReport {
+    const { evolutions, reach } = this.earnableEvolutions();
+    const issues: string[] = [];
+
+    const unreachableGoals = this.stage.goals.filter((_, i) => !reach.goals[i]);
+    for (const goal of unreachableGoals) {
+      issues.push(`goal "${goal.name}" at (${goal.x}, ${goal.y}) is unreachable`);
+    }
+
+    const sectionOf = (x: number, y: number) => {
+      const section = findSectionAt(this.stage, x, y);
+      return section ? this.stage.sections.indexOf(section) : -1;
+    };
+    const platformSection = this.stage.platforms.map((p) => sectionOf(p.x, p.y));
+    const foodSection = this.stage.foodItems.map((f) => sectionOf(f.x, f.y));
+
+    const sections = this.stage.sections.map((section, index): SectionReport => {
+      const requires = section.requires ?? [];
+      const reached = platformSection.some((s, i) => s === index && reach.platforms[i]);
+      const before = requires.length > 0
+        ? this.earnableEvolutions((i) => foodSection[i] < index).evolutions
+        : [];
+      const missing = requires.filter((id) => !before.includes(id));
+
+      if (!reached) {
+        issues.push(`section "${section.name}" can't be reached`);
+      }
+      if (missing.length > 0) {
+        issues.push(`section "${section.name}" requires ${missing.join(', ')}, which the food before it can't pay for`);
+      }
+      return { id: section.id, name: section.name, reached, requires, missing };
+    });
+
+    return { evolutions, reach, unreachableGoals, sections, issues };
+  }
+
+  /** Index of the nearest surface at or below a point, or -1. */
+  private surfaceBelow(x: number, y: number): number {
+    let best = -1;
+    this.surfaces.forEach((s, i) => {
+      if (x < s.left || x > s.right || s.top < y) return;
+      if (best === -1 || s.top < this.surfaces[best].top) best = i;
+    });
+    return best;
+  }
+}
+
+/**
+ * Stats for a set of evolutions, ignoring body weight: weight only hurts
+ * movement, and a player can always leave the metal branch alone.
+ */
+function statsFor(evolutions: EvolutionNodeId[]): PlayerStats {
+  const movement = evolutions.filter((id) => !evolutionTree[id].effects.bodyWeight);
+  return new PlayerStats({ getActiveEvolutions: () => movement });
+}
+
+function toSurface(p: PlatformDef): Surface {
+  return { left: p.x - p.w / 2, right: p.x + p.w / 2, top: p.y - p.h / 2 };
+}
+
+/** Horizontal distance between two spans (0 when they overlap). */
+function spanGap(aLeft: number, aRight: number, bLeft: number, bRight: number): number {
+  return Math.max(0, bLeft - aRight, aLeft - bRight);
+}
+
+/** Distance from a point to a rectangle (0 when inside). */
+function rectDistance(px: number, py: number, left: number, top: number, right: number, bottom: number): number {
+  const dx = Math.max(left - px, 0, px - right);
+  const dy = Math.max(top - py, 0, py - bottom);
+  return Math.hypot(dx, dy);
+}
+
+/** Ballistic movement of the player body for one set of capabilities. */
+class MovementModel {
+  /** Gravity in px per physics frame squared. */
+  private readonly gravity = C.GRAVITY_Y * 0.001 * C.PHYSICS_FRAME_MS * C.PHYSICS_FRAME_MS;
+  private readonly halfHeight: number;
+  private readonly stepHeight: number;
+  private readonly launchSpeed: number;
+  private readonly jumpHeight: number;
+  private readonly range: number;
+
+  constructor(stats: ReachStats) {
+    this.halfHeight = C.PLAYER_RADIUS * stats.bodyStretchFactor;
+    this.stepHeight = C.PLAYER_RADIUS * (2 * stats.bodyStretchFactor - 1);
+    const charge = stats.canChargedJump ? 1 + C.JUMP_CHARGE_MULTIPLIER : 1;
+    this.launchSpeed = stats.canJump ? Math.abs(stats.jumpVelocity) * charge : 0;
+    this.jumpHeight = (this.launchSpeed * this.launchSpeed) / (2 * this.gravity);
+    this.range = stats.grappleRange;
+  }
+
+  /** Step, jump or fall from one surface onto another. */
+  canMove(from: Surface, to: Surface): boolean {
+    const gap = spanGap(from.left, from.right, to.left, to.right);
+    const rise = from.top - to.top;
+    if (rise <= this.stepHeight && gap <= C.PLAYER_RADIUS) return true;
+
+    // The body only has to clear the ledge by its step height
+    const climb = rise - this.stepHeight;
+    if (climb > this.jumpHeight) return false;
+    const v = this.launchSpeed;
+    const airtime = (v + Math.sqrt(v * v - 2 * this.gravity * climb)) / this.gravity;
+    return gap <= C.PLAYER_MAX_VELOCITY * airtime + C.PLAYER_RADIUS;
+  }
+
+  /** Fire the grapple at a hook while standing on (or jumping from) a surface. */
+  canGrappleFrom(from: Surface, hook: HookPointDef): boolean {
+    if (this.range <= 0) return false;
+    const stand = from.top - this.halfHeight;
+    return rectDistance(hook.x, hook.y, from.left, stand - this.jumpHeight, from.right, stand) <= this.range;
+  }
+
+  /** Fire at another hook from anywhere in the swing of the current one. */
+  canSwingTo(from: HookPointDef, to: HookPointDef): boolean {
+    const dx = to.x - from.x;
+    const dy = to.y - from.y;
+    const distance = dy >= 0
+      ? Math.max(0, Math.hypot(dx, dy) - this.range)
+      : Math.hypot(Math.max(0, Math.abs(dx) - this.range), dy);
+    return distance <= this.range;
+  }
+
+  /** Let go of a hook and land on a surface below its height. */
+  canDropTo(from: HookPointDef, to: Surface): boolean {
+    const drop = to.top - this.halfHeight - from.y;
+    if (drop < 0) return false;
+    const airtime = Math.sqrt((2 * drop) / this.gravity);
+    const gap = spanGap(from.x - this.range, from.x + this.range, to.left, to.right);
+    return gap <= C.PLAYER_MAX_VELOCITY * airtime + C.PLAYER_RADIUS;
+  }
+
+  /** Whether the body touches an area (grown by `margin`) while on or jumping from a surface. */
+  surfaceTouches(s: Surface, area: AreaDef, margin: number): boolean {
+    const stand = s.top - this.halfHeight;
+    return this.overlaps(s.left, stand - this.jumpHeight, s.right, stand, area, margin);
+  }
+
+  /** Whether the body touches an area (grown by `margin`) while swinging from a hook. */
+  hookTouches(h: HookPointDef, area: AreaDef, margin: number): boolean {
+    const grow = Math.max(C.PLAYER_RADIUS, this.halfHeight) + margin;
+    const d = rectDistance(h.x, h.y, area.x - grow, area.y - grow, area.x + area.w + grow, area.y + area.h + grow);
+    const below = area.y + area.h + grow >= h.y;
+    return below && d <= this.range;
+  }
+
+  /** Whether a body whose center sweeps the given box overlaps an area. */
+  private overlaps(left: number, top: number, right: number, bottom: number, area: AreaDef, margin: number): boolean {
+    return (
+      left - C.PLAYER_RADIUS - margin <= area.x + area.w &&
+      right + C.PLAYER_RADIUS + margin >= area.x &&
+      top - this.halfHeight - margin <= area.y + area.h &&
+      bottom + this.halfHeight + margin >= area.y
+    );
+  }
+}
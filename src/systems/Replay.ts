@@ -0,0 +1,134 @@
+import { ALL_CHALLENGE_RULE_IDS, ChallengeRuleId } from '../data/challenges';
+import { InputRecording, MAX_REPLAY_TICKS, ReplayMarker, TickInput } from './InputRecorder';
+
+export const REPLAY_FORMAT_VERSION = 1;
+
+const LAST_REPLAY_KEY = 'phyloclimb_last_replay';
+
+/**
+ * Replay document as exported to JSON. Consecutive identical ticks are
+ * run-length encoded as [count, buttons, pointerX, pointerY, wheel, clicks]
+ * so idle stretches cost a single entry.
+ */
+interface ReplayFile {
+  version: number;
+  seed: string;
+  levelId: string | null;
+  challenges?: ChallengeRuleId[];   // omitted by files from before challenge modes
+  fingerprint: string | null;
+  markers: ReplayMarker[];
+  ticks: number[][];
+}
+
+/** A replay document that can't be read. */
+export class ReplayFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReplayFormatError';
+  }
+}
+
+/**
+ * Playback state shared between ReplayViewerScene, which sets it from the
+ * timeline controls, and GameScene, which follows it and reports progress.
+ */
+export class ReplayControl {
+  paused = false;
+  speed = 1;
+  seekTarget: number | null = null;   // tick to fast-forward (or rewind) to
+  tick = 0;                           // ticks played, written by GameScene
+  ended = false;                      // the replayed run has died or cleared
+}
+
+function sameTick(a: TickInput, b: TickInput): boolean {
+  return a.buttons === b.buttons && a.pointerX === b.pointerX && a.pointerY === b.pointerY
+    && a.wheel === b.wheel && a.clicks === b.clicks;
+}
+
+/** Serialize a recording as a replay JSON document. */
+export function serializeReplay(recording: InputRecording): string {
+  const ticks: number[][] = [];
+  let prev: TickInput | null = null;
+  for (const t of recording.ticks) {
+    if (prev && sameTick(prev, t)) {
+      ticks[ticks.length - 1][0]++;
+    } else {
+      ticks.push([1, t.buttons, t.pointerX, t.pointerY, t.wheel, t.clicks]);
+    }
+    prev = t;
+  }
+
+  const file: ReplayFile = {
+    version: REPLAY_FORMAT_VERSION,
+    seed: recording.seed,
+    levelId: recording.levelId,
+    challenges: recording.challenges,
+    fingerprint: recording.fingerprint,
+    markers: recording.markers,
+    ticks,
+  };
+  return JSON.stringify(file);
+}
+
+/** Parse a replay JSON document. Throws ReplayFormatError if it isn't one. */
+export function parseReplay(text: string): InputRecording {
+  let data: Partial<ReplayFile>;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new ReplayFormatError(`invalid JSON: ${(e as Error).message}`);
+  }
+  if (typeof data !== 'object' || data === null) throw new ReplayFormatError('not a replay file');
+  if (data.version !== REPLAY_FORMAT_VERSION) {
+    throw new ReplayFormatError(`unsupported version ${JSON.stringify(data.version)}`);
+  }
+  if (typeof data.seed !== 'string' || data.seed === '') throw new ReplayFormatError('missing seed');
+  if (data.levelId !== null && typeof data.levelId !== 'string') throw new ReplayFormatError('invalid levelId');
+  if (data.fingerprint !== null && typeof data.fingerprint !== 'string') {
+    throw new ReplayFormatError('invalid fingerprint');
+  }
+  const challenges = data.challenges ?? [];
+  if (!Array.isArray(challenges) || !challenges.every((id) => ALL_CHALLENGE_RULE_IDS.includes(id))) {
+    throw new ReplayFormatError('invalid challenges');
+  }
+  if (!Array.isArray(data.ticks)) throw new ReplayFormatError('missing ticks');
+
+  const ticks: TickInput[] = [];
+  data.ticks.forEach((entry, i) => {
+    if (!Array.isArray(entry) || entry.length !== 6 || !entry.every(Number.isInteger) || entry[0] < 1) {
+      throw new ReplayFormatError(`ticks[${i}] must be [count, buttons, pointerX, pointerY, wheel, clicks]`);
+    }
+    const [count, buttons, pointerX, pointerY, wheel, clicks] = entry;
+    // Checked before expanding, so a huge count can't exhaust memory
+    if (count > MAX_REPLAY_TICKS - ticks.length) {
+      throw new ReplayFormatError(`replay is longer than the maximum of ${MAX_REPLAY_TICKS} ticks`);
+    }
+    for (let n = 0; n < count; n++) ticks.push({ buttons, pointerX, pointerY, wheel, clicks });
+  });
+
+  const markers = Array.isArray(data.markers) ? data.markers : [];
+  markers.forEach((m, i) => {
+    const valid = Number.isInteger(m?.tick) && m.tick >= 0 && m.tick < ticks.length
+      && (m.kind === 'evolution' || m.kind === 'damage') && typeof m.label === 'string';
+    if (!valid) throw new ReplayFormatError(`markers[${i}] is invalid`);
+  });
+
+  return { seed: data.seed, levelId: data.levelId, challenges, ticks, markers, fingerprint: data.fingerprint };
+}
+
+/** Keep the replay of the latest run across page reloads. */
+export function saveLastReplay(recording: InputRecording): void {
+  try {
+    localStorage.setItem(LAST_REPLAY_KEY, serializeReplay(recording));
+  } catch { /* storage full or unavailable: the replay just isn't kept */ }
+}
+
+/** Replay of the latest run, or null if there is none (or it's unreadable). */
+export function loadLastReplay(): InputRecording | null {
+  try {
+    const raw = localStorage.getItem(LAST_REPLAY_KEY);
+    return raw ? parseReplay(raw) : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,383 @@
+import { ALL_NODE_IDS, EvolutionNodeId } from '../data/evolutionTree';
+import { createEmptyPoints } from '../data/foodTypes';
+import { ALL_BIOME_IDS, BiomeId } from '../data/biomes';
+import { ALL_CHALLENGE_RULE_IDS, ChallengeRuleId } from '../data/challenges';
+import { ALL_ACHIEVEMENT_IDS, AchievementId } from '../data/achievements';
+import type {
+  ChallengeBadge, EncyclopediaData, GhostRecord, GoalRecord, HeatPoint, RunHistoryEntry,
+} from './EncyclopediaSystem';
+
+/**
+ * Version of the persisted encyclopedia document. Bump it whenever the
+ * shape of EncyclopediaData changes and add the matching migration.
+ */
+export const SAVE_VERSION = 8;
+
+/** Encyclopedia data as persisted and exported. */
+export interface SaveFile extends EncyclopediaData {
+  version: number;
+}
+
+export interface SaveIssue {
+  path: string;                 // e.g. "ghosts[2].path"
+  message: string;
+}
+
+/** A save document that can't be used. */
+export class SaveFormatError extends Error {
+  readonly issues: SaveIssue[];
+
+  constructor(issues: SaveIssue[]) {
+    super(`Invalid save:\n${issues.map((i) => `  ${i.path}: ${i.message}`).join('\n')}`);
+    this.name = 'SaveFormatError';
+    this.issues = issues;
+  }
+}
+
+type Json = Record<string, unknown>;
+
+function isObject(value: unknown): value is Json {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isCount(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0;
+}
+
+function isIntArray(value: unknown): value is number[] {
+  return Array.isArray(value) && value.every(Number.isInteger);
+}
+
+/**
+ * Migrations[n] upgrades a version n document to version n + 1. They only
+ * reshape data; validate() takes care of missing or broken fields.
+ */
+const MIGRATIONS: Record<number, (data: Json) => Json> = {
+  // Saves from before versioning. Fields added since then may be missing.
+  1: (data) => ({ ...data }),
+  // Lifetime stats: nothing was tracked before, so they start from zero
+  2: (data) => ({ ...data, foodIntake: {}, highestHeight: 0, deaths: {}, furthestBiomes: {} }),
+  // Fall and death heatmap, logged from now on
+  3: (data) => ({ ...data, heatmap: [] }),
+  // Run history, kept from now on
+  4: (data) => ({ ...data, history: [] }),
+  // Challenge badges
+  5: (data) => ({ ...data, badges: [] }),
+  // Achievements
+  6: (data) => ({ ...data, achievements: {} }),
+  // Goal records per level instead of per goal label
+  7: (data) => ({ ...data, goals: goalsByLevel(data) }),
+};
+
+/** Level key for goal records whose level can't be told any more. */
+const UNKNOWN_LEVEL_KEY = 'unknown';
+
+/**
+ * Version 7 kept one record per goal label, shared by every level. Each
+ * goes to the level whose ghost holds the record's best time; the clear
+ * count and best HP can't be split, so they stay with it.
+ */
+function goalsByLevel(data: Json): unknown {
+  if (!isObject(data.goals)) return data.goals;
+  const ghosts = Array.isArray(data.ghosts) ? data.ghosts.filter(isObject) : [];
+  const goals: Record<string, Json> = {};
+  for (const [label, record] of Object.entries(data.goals)) {
+    const ghost = isObject(record)
+      ? ghosts.find((g) => g.goal === label && g.ticks === record.bestTicks)
+      : undefined;
+    const levelKey = typeof ghost?.levelKey === 'string' ? ghost.levelKey : UNKNOWN_LEVEL_KEY;
+    goals[levelKey] = { ...goals[levelKey], [label]: record };
+  }
+  return goals;
+}
+
+export function defaultSaveData(): EncyclopediaData {
+  return {
+    discoveredNodes: [],
+    totalRuns: 0,
+    totalClears: 0,
+    bestRemainingHp: 0,
+    mimicEncounters: 0,
+    ghosts: [],
+    goals: {},
+    foodIntake: createEmptyPoints(),
+    highestHeight: 0,
+    deaths: { fall: 0, deathzone: 0, enemy: 0, mimic: 0 },
+    furthestBiomes: Object.fromEntries(ALL_BIOME_IDS.map((id) => [id, 0])) as Record<BiomeId, number>,
+    heatmap: [],
+    history: [],
+    badges: [],
+    achievements: {},
+  };
+}
+
+function isGhostRecord(value: unknown): value is GhostRecord {
+  return isObject(value)
+    && typeof value.levelKey === 'string' && typeof value.layoutHash === 'string'
+    && typeof value.goal === 'string' && isCount(value.ticks)
+    && isIntArray(value.splits) && isIntArray(value.path) && value.path.length % 2 === 0;
+}
+
+const DEATH_CAUSES: readonly unknown[] = Object.keys(defaultSaveData().deaths);
+
+function isHeatPoint(value: unknown): value is HeatPoint {
+  return isObject(value)
+    && typeof value.levelKey === 'string' && typeof value.layoutHash === 'string'
+    && (value.kind === 'fall' || value.kind === 'death')
+    && Number.isInteger(value.x) && Number.isInteger(value.y) && isCount(value.damage)
+    && (value.cause === null || DEATH_CAUSES.includes(value.cause)) && isCount(value.at);
+}
+
+function isHistoryEntry(value: unknown): value is RunHistoryEntry {
+  return isObject(value)
+    && isCount(value.date) && typeof value.levelKey === 'string' && isCount(value.ticks)
+    && (value.goal === null || typeof value.goal === 'string')
+    && (value.deathCause === null || DEATH_CAUSES.includes(value.deathCause))
+    && Array.isArray(value.evolutions)
+    && value.evolutions.every((e) => isObject(e)
+      && ALL_NODE_IDS.includes(e.node as EvolutionNodeId) && isCount(e.tick))
+    && isCount(value.peakHeight) && isCount(value.remainingHp);
+}
+
+function isBadge(value: unknown): value is ChallengeBadge {
+  return isObject(value)
+    && Array.isArray(value.rules) && value.rules.length > 0
+    && value.rules.every((id) => ALL_CHALLENGE_RULE_IDS.includes(id as ChallengeRuleId))
+    && typeof value.goal === 'string' && isCount(value.clears) && isCount(value.earnedAt);
+}
+
+function isGoalRecord(value: unknown): value is GoalRecord {
+  return isObject(value) && typeof value.name === 'string'
+    && isCount(value.clears) && isCount(value.bestTicks) && isCount(value.bestHp);
+}
+
+/** Copy the counts in `value` onto `counts`, whose keys are the known ones. Unknown keys are dropped. */
+function validateCounts<K extends string>(
+  value: unknown,
+  counts: Record<K, number>,
+  path: string,
+  fail: (path: string, message: string) => void,
+): void {
+  if (value === undefined) return;
+  if (!isObject(value)) {
+    fail(path, 'must be an object');
+    return;
+  }
+  for (const key of Object.keys(counts) as K[]) {
+    if (isCount(value[key])) counts[key] = value[key] as number;
+    else if (value[key] !== undefined) fail(`${path}.${key}`, 'must be a non-negative integer');
+  }
+}
+
+/**
+ * Check every field of an up-to-date document. Broken fields fall back to
+ * their default (broken list entries are dropped) and are reported.
+ */
+function validate(data: Json, issues: SaveIssue[]): EncyclopediaData {
+  const result = defaultSaveData();
+  const fail = (path: string, message: string) => issues.push({ path, message });
+
+  if (Array.isArray(data.discoveredNodes)) {
+    // Node IDs from older builds are dropped silently: they were renamed or removed
+    result.discoveredNodes = data.discoveredNodes.filter(
+      (id): id is EvolutionNodeId => ALL_NODE_IDS.includes(id as EvolutionNodeId),
+    );
+  } else if (data.discoveredNodes !== undefined) {
+    fail('discoveredNodes', 'must be an array');
+  }
+
+  for (const key of ['totalRuns', 'totalClears', 'bestRemainingHp', 'mimicEncounters', 'highestHeight'] as const) {
+    if (isCount(data[key])) result[key] = data[key] as number;
+    else if (data[key] !== undefined) fail(key, 'must be a non-negative integer');
+  }
+
+  if (Array.isArray(data.ghosts)) {
+    data.ghosts.forEach((ghost, i) => {
+      if (isGhostRecord(ghost)) result.ghosts.push(ghost);
+      else fail(`ghosts[${i}]`, 'is not a valid ghost');
+    });
+  } else if (data.ghosts !== undefined) {
+    fail('ghosts', 'must be an array');
+  }
+
+  if (isObject(data.goals)) {
+    for (const [levelKey, records] of Object.entries(data.goals)) {
+      if (!isObject(records)) {
+        fail(`goals.${levelKey}`, 'must be an object');
+        continue;
+      }
+      result.goals[levelKey] = {};
+      for (const [label, record] of Object.entries(records)) {
+        if (isGoalRecord(record)) result.goals[levelKey][label] = record;
+        else fail(`goals.${levelKey}.${label}`, 'is not a valid goal record');
+      }
+    }
+  } else if (data.goals !== undefined) {
+    fail('goals', 'must be an object');
+  }
+
+  if (Array.isArray(data.heatmap)) {
+    data.heatmap.forEach((point, i) => {
+      if (isHeatPoint(point)) result.heatmap.push(point);
+      else fail(`heatmap[${i}]`, 'is not a valid heat point');
+    });
+  } else if (data.heatmap !== undefined) {
+    fail('heatmap', 'must be an array');
+  }
+
+  if (Array.isArray(data.history)) {
+    data.history.forEach((entry, i) => {
+      if (isHistoryEntry(entry)) result.history.push(entry);
+      else fail(`history[${i}]`, 'is not a valid run');
+    });
+  } else if (data.history !== undefined) {
+    fail('history', 'must be an array');
+  }
+
+  if (Array.isArray(data.badges)) {
+    data.badges.forEach((badge, i) => {
+      if (isBadge(badge)) result.badges.push(badge);
+      else fail(`badges[${i}]`, 'is not a valid badge');
+    });
+  } else if (data.badges !== undefined) {
+    fail('badges', 'must be an array');
+  }
+
+  if (isObject(data.achievements)) {
+    for (const [id, unlockedAt] of Object.entries(data.achievements)) {
+      // Like node IDs, achievements from older builds are dropped silently
+      if (!ALL_ACHIEVEMENT_IDS.includes(id as AchievementId)) continue;
+      if (isCount(unlockedAt)) result.achievements[id as AchievementId] = unlockedAt;
+      else fail(`achievements.${id}`, 'must be a non-negative integer');
+    }
+  } else if (data.achievements !== undefined) {
+    fail('achievements', 'must be an object');
+  }
+
+  validateCounts(data.foodIntake, result.foodIntake, 'foodIntake', fail);
+  validateCounts(data.deaths, result.deaths, 'deaths', fail);
+  validateCounts(data.furthestBiomes, result.furthestBiomes, 'furthestBiomes', fail);
+
+  return result;
+}
+
+/**
+ * Bring a parsed save of any known version up to date. Throws
+ * SaveFormatError if it isn't a save at all or comes from a newer build;
+ * anything else that's wrong is fixed and listed in `issues`.
+ */
+export function migrateSave(raw: unknown): { data: EncyclopediaData; issues: SaveIssue[] } {
+  if (!isObject(raw)) throw new SaveFormatError([{ path: '(root)', message: 'not a save object' }]);
+
+  const version = raw.version ?? 1;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new SaveFormatError([{ path: 'version', message: `unknown version ${JSON.stringify(version)}` }]);
+  }
+  if (version > SAVE_VERSION) {
+    throw new SaveFormatError([{ path: 'version', message: `version ${version} is newer than this game (${SAVE_VERSION})` }]);
+  }
+
+  let data: Json = raw;
+  for (let v = version; v < SAVE_VERSION; v++) data = MIGRATIONS[v](data);
+
+  const issues: SaveIssue[] = [];
+  return { data: validate(data, issues), issues };
+}
+
+/** Parse save JSON and migrate it. Throws SaveFormatError if it can't be used. */
+export function parseSave(text: string): { data: EncyclopediaData; issues: SaveIssue[] } {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    throw new SaveFormatError([{ path: '(root)', message: `not valid JSON: ${(e as Error).message}` }]);
+  }
+  return migrateSave(raw);
+}
+
+function maxCounts<K extends string>(a: Record<K, number>, b: Record<K, number>): Record<K, number> {
+  const result = { ...a };
+  for (const key of Object.keys(b) as K[]) result[key] = Math.max(a[key] ?? 0, b[key]);
+  return result;
+}
+
+/**
+ * Combine two saves that went their own ways, e.g. from two tabs: the
+ * union of discovered nodes, heat points, runs, badges and achievements,
+ * the max of every stat, and per level and goal the best records and the
+ * faster ghost.
+ */
+export function mergeSaves(ours: EncyclopediaData, theirs: EncyclopediaData): EncyclopediaData {
+  const sameGhost = (a: GhostRecord, b: GhostRecord) =>
+    a.levelKey === b.levelKey && a.layoutHash === b.layoutHash && a.goal === b.goal;
+  const ghosts = ours.ghosts.map((g) => {
+    const other = theirs.ghosts.find((t) => sameGhost(g, t));
+    return other && other.ticks < g.ticks ? other : g;
+  });
+  // Ghosts only they have count as older than ours
+  ghosts.unshift(...theirs.ghosts.filter((t) => !ours.ghosts.some((g) => sameGhost(g, t))));
+
+  const goals: Record<string, Record<string, GoalRecord>> = { ...theirs.goals };
+  for (const [levelKey, records] of Object.entries(ours.goals)) {
+    goals[levelKey] = { ...theirs.goals[levelKey] };
+    for (const [label, g] of Object.entries(records)) {
+      const t = theirs.goals[levelKey]?.[label];
+      goals[levelKey][label] = t
+        ? {
+          name: g.name,
+          clears: Math.max(g.clears, t.clears),
+          bestTicks: Math.min(g.bestTicks, t.bestTicks),
+          bestHp: Math.max(g.bestHp, t.bestHp),
+        }
+        : g;
+    }
+  }
+
+  // Points are events: both sides' events happened, so keep all of them once
+  const samePoint = (a: HeatPoint, b: HeatPoint) => a.at === b.at && a.x === b.x && a.y === b.y && a.kind === b.kind;
+  const heatmap = [...ours.heatmap, ...theirs.heatmap.filter((t) => !ours.heatmap.some((p) => samePoint(p, t)))]
+    .sort((a, b) => a.at - b.at);
+
+  const sameRun = (a: RunHistoryEntry, b: RunHistoryEntry) => a.date === b.date && a.ticks === b.ticks;
+  const history = [...ours.history, ...theirs.history.filter((t) => !ours.history.some((h) => sameRun(h, t)))]
+    .sort((a, b) => a.date - b.date);
+
+  const sameBadge = (a: ChallengeBadge, b: ChallengeBadge) =>
+    a.goal === b.goal && a.rules.join('+') === b.rules.join('+');
+  const badges = ours.badges.map((b) => {
+    const other = theirs.badges.find((t) => sameBadge(b, t));
+    return other
+      ? { ...b, clears: Math.max(b.clears, other.clears), earnedAt: Math.min(b.earnedAt, other.earnedAt) }
+      : b;
+  });
+  badges.push(...theirs.badges.filter((t) => !ours.badges.some((b) => sameBadge(b, t))));
+
+  // An achievement unlocked on both sides dates from the earlier unlock
+  const achievements = { ...theirs.achievements };
+  for (const [id, unlockedAt] of Object.entries(ours.achievements) as [AchievementId, number][]) {
+    achievements[id] = Math.min(unlockedAt, achievements[id] ?? unlockedAt);
+  }
+
+  return {
+    discoveredNodes: [...new Set([...ours.discoveredNodes, ...theirs.discoveredNodes])],
+    totalRuns: Math.max(ours.totalRuns, theirs.totalRuns),
+    totalClears: Math.max(ours.totalClears, theirs.totalClears),
+    bestRemainingHp: Math.max(ours.bestRemainingHp, theirs.bestRemainingHp),
+    mimicEncounters: Math.max(ours.mimicEncounters, theirs.mimicEncounters),
+    ghosts,
+    goals,
+    foodIntake: maxCounts(ours.foodIntake, theirs.foodIntake),
+    highestHeight: Math.max(ours.highestHeight, theirs.highestHeight),
+    deaths: maxCounts(ours.deaths, theirs.deaths),
+    furthestBiomes: maxCounts(ours.furthestBiomes, theirs.furthestBiomes),
+    heatmap,
+    history,
+    badges,
+    achievements,
+  };
+}
+
+export function serializeSave(data: EncyclopediaData): string {
+  const file: SaveFile = { version: SAVE_VERSION, ...data };
+  return JSON.stringify(file);
+}
@@ -0,0 +1,151 @@
+/**
+ * Where saves live. Backends are small key-value stores of text
+ * documents; EncyclopediaSystem handles the schema and conflicts.
+ */
+export interface StorageBackend {
+  readonly name: string;
+  /** The document stored under `key`, or null if there is none. */
+  load(key: string): Promise<string | null>;
+  save(key: string, text: string): Promise<void>;
+}
+
+/** Browser localStorage: the default. */
+export class LocalStorageBackend implements StorageBackend {
+  readonly name = 'localStorage';
+
+  async load(key: string): Promise<string | null> {
+    return localStorage.getItem(key);
+  }
+
+  async save(key: string, text: string): Promise<void> {
+    localStorage.setItem(key, text);
+  }
+}
+
+/**
+ * Keeps saves in memory only: for tests and runs under Node, where there
+ * is no window or localStorage. Nothing else is needed:
+ *
+ *   const encyclopedia = await EncyclopediaSystem.open(new MemoryBackend());
+ */
+export class MemoryBackend implements StorageBackend {
+  readonly name = 'memory';
+  private documents = new Map<string, string>();
+
+  async load(key: string): Promise<string | null> {
+    return this.documents.get(key) ?? null;
+  }
+
+  async save(key: string, text: string): Promise<void> {
+    this.documents.set(key, text);
+  }
+}
+
+/** Browser IndexedDB, for saves that outgrow localStorage's quota. */
+export class IndexedDBBackend implements StorageBackend {
+  readonly name = 'indexedDB';
+  private static readonly STORE = 'saves';
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(private readonly dbName: string) {}
+
+  async load(key: string): Promise<string | null> {
+    const result = await this.request('readonly', (store) => store.get(key));
+    return typeof result === 'string' ? result : null;
+  }
+
+  async save(key: string, text: string): Promise<void> {
+    await this.request('readwrite', (store) => store.put(text, key));
+  }
+
+  private open(): Promise<IDBDatabase> {
+    this.db ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.dbName, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(IndexedDBBackend.STORE);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return this.db;
+  }
+
+  private async request(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest): Promise<unknown> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const request = run(db.transaction(IndexedDBBackend.STORE, mode).objectStore(IndexedDBBackend.STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+/**
+ * Save server reached over HTTP, e.g. the local file-save server of the PC
+ * build. Protocol: GET `<baseUrl>/<key>` returns the document (404 if there
+ * is none), PUT `<baseUrl>/<key>` stores the request body. Works under
+ * Node 18+ with its global fetch. Pass a stand-in `fetch` to run without a
+ * server, e.g. one answering from a Map:
+ *
+ *   const files = new Map<string, string>();
+ *   const backend = new HttpBackend('http://saves.test', async (input, init) => {
+ *     const key = String(input).split('/').pop()!;
+ *     if (init?.method === 'PUT') files.set(key, String(init.body));
+ *     const text = files.get(key);
+ *     return text === undefined ? new Response(null, { status: 404 }) : new Response(text);
+ *   });
+ */
+export class HttpBackend implements StorageBackend {
+  readonly name = 'http';
+
+  constructor(
+    private readonly baseUrl: string,
+    private readonly fetchFn: typeof fetch = (input, init) => fetch(input, init),
+  ) {}
+
+  async load(key: string): Promise<string | null> {
+    const url = this.url(key);
+    const response = await this.fetchFn(url, { method: 'GET' });
+    if (response.status === 404) return null;
+    if (!response.ok) throw new Error(`save server: GET ${url} failed with ${response.status}`);
+    return response.text();
+  }
+
+  async save(key: string, text: string): Promise<void> {
+    const url = this.url(key);
+    const response = await this.fetchFn(url, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: text,
+    });
+    if (!response.ok) throw new Error(`save server: PUT ${url} failed with ${response.status}`);
+  }
+
+  private url(key: string): string {
+    return `${this.baseUrl.replace(/\/+$/, '')}/${encodeURIComponent(key)}`;
+  }
+}
+
+const DEFAULT_SAVE_SERVER = 'http://localhost:8787/saves';
+
+/**
+ * Backend picked by the page URL: ?save=local (default), indexeddb,
+ * memory or http (with ?saveServer=<url> to override the server).
+ * Outside the browser, pass the options as a query string; without
+ * localStorage the default is the memory backend:
+ *
+ *   createStorageBackend('?save=http&saveServer=http://localhost:8787/saves');
+ */
+export function createStorageBackend(
+  search = typeof location === 'undefined' ? '' : location.search,
+): StorageBackend {
+  const params = new URLSearchParams(search);
+  switch (params.get('save')) {
+    case 'indexeddb':
+      return new IndexedDBBackend('phyloclimb');
+    case 'memory':
+      return new MemoryBackend();
+    case 'http':
+      return new HttpBackend(params.get('saveServer') ?? DEFAULT_SAVE_SERVER);
+    default:
+      return typeof localStorage === 'undefined' ? new MemoryBackend() : new LocalStorageBackend();
+  }
+}
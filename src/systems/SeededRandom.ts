@@ -0,0 +1,90 @@
+const SEED_CHARS = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+/** 32-bit FNV-1a hash of a string. */
+export function hashString(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * Run-level pseudo-random generator (mulberry32).
+ *
+ * Every random decision in a run goes through one of these so a seed
+ * reproduces the same run. Use `fork` to give each system its own stream:
+ * then e.g. extra cosmetic rolls never shift where dust spawns.
+ */
+export class SeededRandom {
+  readonly seed: string;
+  private state: number;
+
+  constructor(seed: string) {
+    this.seed = SeededRandom.normalizeSeed(seed);
+    this.state = hashString(this.seed);
+  }
+
+  /** Fresh seed for a run nobody asked a specific seed for. */
+  static randomSeed(length = 8): string {
+    let seed = '';
+    for (let i = 0; i < length; i++) {
+      seed += SEED_CHARS[Math.floor(Math.random() * SEED_CHARS.length)];
+    }
+    return seed;
+  }
+
+  /** Seeds are case-insensitive and ignore anything but letters and digits. */
+  static normalizeSeed(seed: string): string {
+    return seed.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  }
+
+  /** Independent stream derived from this seed and a label. */
+  fork(label: string): SeededRandom {
+    const child = new SeededRandom(this.seed);
+    child.state = hashString(`${this.seed}/${label}`);
+    return child;
+  }
+
+  /** Float in [0, 1). */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /** Float in [min, max). */
+  between(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  /** Integer in [min, max]. */
+  intBetween(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  /** Key picked with probability proportional to its weight. */
+  pickWeighted<K extends string>(weights: Record<K, number>): K {
+    const entries = (Object.entries(weights) as [K, number][]).filter(([, w]) => w > 0);
+    const total = entries.reduce((sum, [, w]) => sum + w, 0);
+    let roll = this.next() * total;
+    for (const [key, w] of entries) {
+      roll -= w;
+      if (roll < 0) return key;
+    }
+    return entries[entries.length - 1][0];
+  }
+
+  /** Shuffled copy of `items`. */
+  shuffle<T>(items: readonly T[]): T[] {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+      const j = Math.floor(this.next() * (i + 1));
+      [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+  }
+}
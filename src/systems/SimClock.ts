@@ -0,0 +1,37 @@
+import * as C from '../constants';
+
+/**
+ * Simulated time for a run. Gameplay reads `now` from here instead of the
+ * scene clock so that a run only depends on its inputs: the clock moves in
+ * fixed PHYSICS_FRAME_MS ticks, however long real frames take.
+ */
+export class SimClock {
+  private ticks = 0;
+  private accumulator = 0;
+
+  /** Ticks simulated so far. */
+  get tick(): number {
+    return this.ticks;
+  }
+
+  /** Simulated milliseconds since the run started. */
+  get now(): number {
+    return this.ticks * C.PHYSICS_FRAME_MS;
+  }
+
+  /**
+   * Bank a frame's real time and return how many ticks are due. Long
+   * frames are capped so a stall doesn't snowball into more catch-up work.
+   */
+  consumeFrame(deltaMs: number): number {
+    this.accumulator = Math.min(this.accumulator + deltaMs, C.PHYSICS_FRAME_MS * C.SIM_MAX_TICKS_PER_FRAME);
+    const due = Math.floor(this.accumulator / C.PHYSICS_FRAME_MS);
+    this.accumulator -= due * C.PHYSICS_FRAME_MS;
+    return due;
+  }
+
+  /** Move to the next tick. */
+  advance(): void {
+    this.ticks++;
+  }
+}
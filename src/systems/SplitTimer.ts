@@ -0,0 +1,119 @@
+import * as C from '../constants';
+
+/** A timed moment of a run. */
+export interface Split {
+  kind: 'section' | 'evolution' | 'goal';
+  label: string;
+  tick: number;                 // simulation tick the split happened on
+}
+
+/** Simulated time of `ticks` as m:ss.ss. */
+export function formatTicks(ticks: number): string {
+  const seconds = (ticks * C.PHYSICS_FRAME_MS) / 1000;
+  const m = Math.floor(seconds / 60);
+  const s = (seconds % 60).toFixed(2).padStart(5, '0');
+  return `${m}:${s}`;
+}
+
+/** LiveSplit time span: hh:mm:ss.fffffff */
+function liveSplitTime(ticks: number): string {
+  const totalMs = ticks * C.PHYSICS_FRAME_MS;
+  const h = Math.floor(totalMs / 3_600_000);
+  const m = Math.floor(totalMs / 60_000) % 60;
+  const s = ((totalMs / 1000) % 60).toFixed(7).padStart(10, '0');
+  return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}:${s}`;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * In-run speedrun timer. Splits are stamped with SimClock ticks, so a
+ * replay of the run reproduces them exactly.
+ */
+export class SplitTimer {
+  private splits: Split[] = [];
+  private visitedSections: Set<string>;
+
+  /** The run starts inside `startSectionId`, which is not a split. */
+  constructor(startSectionId: string) {
+    this.visitedSections = new Set([startSectionId]);
+  }
+
+  /** Split on the first entry into a section. Returns false if it was visited before. */
+  enterSection(id: string, name: string, tick: number): boolean {
+    if (this.visitedSections.has(id)) return false;
+    this.visitedSections.add(id);
+    this.splits.push({ kind: 'section', label: name, tick });
+    return true;
+  }
+
+  evolution(name: string, tick: number): void {
+    this.splits.push({ kind: 'evolution', label: name, tick });
+  }
+
+  /** Final split: the goal that ended the run. */
+  finish(goalName: string, tick: number): void {
+    this.splits.push({ kind: 'goal', label: goalName, tick });
+  }
+
+  getSplits(): readonly Split[] {
+    return this.splits;
+  }
+
+  /**
+   * The splits as a LiveSplit splits file (.lss), with this run as the
+   * personal best. Real and game time are both the simulated time.
+   */
+  toLiveSplit(category: string): string {
+    const segments = this.splits.map((split, i) => {
+      const time = liveSplitTime(split.tick);
+      const segment = liveSplitTime(split.tick - (i > 0 ? this.splits[i - 1].tick : 0));
+      return [
+        '    <Segment>',
+        `      <Name>${escapeXml(split.label)}</Name>`,
+        '      <Icon />',
+        '      <SplitTimes>',
+        '        <SplitTime name="Personal Best">',
+        `          <RealTime>${time}</RealTime>`,
+        `          <GameTime>${time}</GameTime>`,
+        '        </SplitTime>',
+        '      </SplitTimes>',
+        '      <BestSegmentTime>',
+        `        <RealTime>${segment}</RealTime>`,
+        `        <GameTime>${segment}</GameTime>`,
+        '      </BestSegmentTime>',
+        '      <SegmentHistory />',
+        '    </Segment>',
+      ].join('\n');
+    });
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<Run version="1.7.0">',
+      '  <GameIcon />',
+      '  <GameName>PhyloClimb</GameName>',
+      `  <CategoryName>${escapeXml(category)}</CategoryName>`,
+      '  <Metadata>',
+      '    <Run id="" />',
+      '    <Platform usesEmulator="False"></Platform>',
+      '    <Region></Region>',
+      '    <Variables />',
+      '  </Metadata>',
+      '  <Offset>00:00:00</Offset>',
+      '  <AttemptCount>1</AttemptCount>',
+      '  <AttemptHistory />',
+      '  <Segments>',
+      ...segments,
+      '  </Segments>',
+      '  <AutoSplitterSettings />',
+      '</Run>',
+      '',
+    ].join('\n');
+  }
+}
@@ -1,25 +1,98 @@
 import Phaser from 'phaser';
-import { EncyclopediaSystem } from '../systems/EncyclopediaSystem';
-import { evolutionTree, EvolutionNodeId } from '../data/evolutionTree';
+import {
+  DeathCause, EncyclopediaData, EncyclopediaSystem, RunHistoryEntry,
+} from '../systems/EncyclopediaSystem';
+import { formatTicks } from '../systems/SplitTimer';
+import { evolutionTree, EvolutionNodeId, EvolutionBranch, getBranchNodes } from '../data/evolutionTree';
+import { foodTypes, ALL_FOOD_TYPE_IDS } from '../data/foodTypes';
+import { biomes, ALL_BIOME_IDS } from '../data/biomes';
+import { challengeName } from '../data/challenges';
+import { achievements } from '../data/achievements';
+import { StageLayout } from '../data/stageData';
 import * as C from '../constants';
+import { drawBackground, drawGoalArea, drawWalls } from './StageRenderer';
+import { drawHeatPoints, heatPointsToCsv } from './Heatmap';
+import { downloadText } from './fileDialogs';
+
+/** Badges listed on the stats page before the rest are summarised. */
+const MAX_LISTED_BADGES = 5;
+
+const PAGES = [
+  { id: 'tree', label: '系統樹' },
+  { id: 'stats', label: '統計' },
+  { id: 'heatmap', label: 'ヒートマップ' },
+  { id: 'history', label: '履歴' },
+  { id: 'achievements', label: '実績' },
+] as const;
+type EncyclopediaPage = typeof PAGES[number]['id'];
+
+/** Sortable columns of the run history. */
+const HISTORY_COLUMNS = [
+  { id: 'date', label: '日時', x: 30, value: (r: RunHistoryEntry) => r.date },
+  { id: 'time', label: '時間', x: 150, value: (r: RunHistoryEntry) => r.ticks },
+  { id: 'outcome', label: '結果', x: 220, value: (r: RunHistoryEntry) => (r.goal ? 1 : 0) },
+  { id: 'height', label: '高度', x: 340, value: (r: RunHistoryEntry) => r.peakHeight },
+  { id: 'hp', label: '残HP', x: 400, value: (r: RunHistoryEntry) => r.remainingHp },
+  { id: 'evolutions', label: '進化', x: 460, value: (r: RunHistoryEntry) => r.evolutions.length },
+] as const;
+type HistoryColumn = typeof HISTORY_COLUMNS[number]['id'];
+
+const DEATH_CAUSE_LABELS: Record<DeathCause, string> = {
+  fall: '落下ダメージ',
+  deathzone: '奈落',
+  enemy: '敵',
+  mimic: '擬態虫',
+};
+
+/** The level being played, for pages about this layout. */
+export interface EncyclopediaLevel {
+  stage: StageLayout;
+  levelKey: string;
+  layoutHash: string;
+}
 
 /**
- * Encyclopedia overlay toggled with Tab key.
- * Shows 2-branch x 3-node evolution tree and run statistics.
+ * Encyclopedia overlay toggled with Tab key. Pages, switched with ←/→:
+ * the evolution tree (one row per food branch plus mixed evolutions),
+ * lifetime statistics, the fall/death heatmap of the current layout, the
+ * history of recent runs, and achievements.
  */
 export class EncyclopediaUI {
   private scene: Phaser.Scene;
   private encyclopedia: EncyclopediaSystem;
   private container: Phaser.GameObjects.Container | null = null;
   private visible = false;
+  private page: EncyclopediaPage = 'tree';
+  private level: EncyclopediaLevel;
+  private historySort: HistoryColumn = 'date';
+  private historyDescending = true;
+  private selectedRun: number | null = null;   // date of the run shown in detail
 
-  constructor(scene: Phaser.Scene, encyclopedia: EncyclopediaSystem) {
+  constructor(scene: Phaser.Scene, encyclopedia: EncyclopediaSystem, level: EncyclopediaLevel) {
     this.scene = scene;
     this.encyclopedia = encyclopedia;
+    this.level = level;
 
     const tabKey = scene.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.TAB);
     tabKey.on('down', () => this.toggle());
     scene.input.keyboard!.addCapture(Phaser.Input.Keyboard.KeyCodes.TAB);
+
+    const leftKey = scene.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.LEFT);
+    const rightKey = scene.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.RIGHT);
+    leftKey.on('down', () => this.turnPage(-1));
+    rightKey.on('down', () => this.turnPage(1));
+  }
+
+  private turnPage(step: number): void {
+    if (!this.visible) return;
+    const index = PAGES.findIndex((p) => p.id === this.page);
+    this.showPage(PAGES[(index + step + PAGES.length) % PAGES.length].id);
+  }
+
+  private showPage(page: EncyclopediaPage): void {
+    this.page = page;
+    this.hide();
+    this.show();
   }
 
   private toggle(): void {
@@ -49,59 +122,359 @@ export class EncyclopediaUI {
       }).setOrigin(0.5)
     );
 
+    // Page tabs
+    let tabX = 20;
+    for (const p of PAGES) {
+      const tab = this.scene.add.text(tabX, 30, `[${p.label}]`, {
+        fontSize: '14px', color: p.id === this.page ? '#ffffff' : '#668866',
+      }).setOrigin(0, 0.5).setInteractive({ useHandCursor: true });
+      tab.on('pointerdown', () => this.showPage(p.id));
+      this.container.add(tab);
+      tabX += tab.width + 8;
+    }
+
     const data = this.encyclopedia.getData();
+    if (this.page === 'stats') {
+      this.drawStats(data);
+    } else if (this.page === 'heatmap') {
+      this.drawHeatmapPage();
+    } else if (this.page === 'history') {
+      this.drawHistory(data);
+    } else if (this.page === 'achievements') {
+      this.drawAchievements(data);
+    } else {
+      this.drawTreePage(data);
+    }
+
+    // Close hint
+    this.container.add(
+      this.scene.add.text(C.GAME_WIDTH / 2, C.GAME_HEIGHT - 20, 'Tabで閉じる | ←/→: ページ切替', {
+        fontSize: '12px', color: '#888888',
+      }).setOrigin(0.5)
+    );
+  }
+
+  private drawTreePage(data: Readonly<EncyclopediaData>): void {
+    if (!this.container) return;
 
     // Stats row
     const statsY = 70;
-    const statsText = `ラン: ${data.totalRuns}  クリア: ${data.totalClears}  最高残HP: ${data.bestRemainingHp}  発見率: ${Math.round(this.encyclopedia.getDiscoveryRate() * 100)}%`;
+    const statsText = `ラン: ${data.totalRuns}  クリア: ${data.totalClears}  最高残HP: ${data.bestRemainingHp}  擬態虫遭遇: ${data.mimicEncounters}  発見率: ${Math.round(this.encyclopedia.getDiscoveryRate() * 100)}%`;
     this.container.add(
       this.scene.add.text(C.GAME_WIDTH / 2, statsY, statsText, {
         fontSize: '13px', color: '#aaaaaa',
       }).setOrigin(0.5)
     );
 
-    // Draw 2-branch tree
+    // Per-goal records of the current level
+    const goalStats = Object.values(data.goals[this.level.levelKey] ?? {})
+      .map((g) => `${g.name}  クリア: ${g.clears}  最速: ${formatTicks(g.bestTicks)}  最高残HP: ${g.bestHp}`)
+      .join('    ');
+    if (goalStats) {
+      this.container.add(
+        this.scene.add.text(C.GAME_WIDTH / 2, statsY + 18, goalStats, {
+          fontSize: '12px', color: '#ccaa66',
+        }).setOrigin(0.5)
+      );
+    }
+
+    // Draw evolution tree
     this.drawTree(data.discoveredNodes);
+  }
 
-    // Close hint
+  /** Lifetime statistics: totals, per-goal records and badges on the left, breakdowns on the right. */
+  private drawStats(data: Readonly<EncyclopediaData>): void {
+    if (!this.container) return;
+    const gfx = this.scene.add.graphics();
+    this.container.add(gfx);
+
+    const left = 60;
+    const right = 430;
+
+    this.addHeading(left, 90, '総合');
+    const totals = [
+      `ラン: ${data.totalRuns}`,
+      `クリア: ${data.totalClears}`,
+      `最高残HP: ${data.bestRemainingHp}`,
+      `最高到達高度: ${data.highestHeight}m`,
+      `擬態虫遭遇: ${data.mimicEncounters}`,
+      `発見率: ${Math.round(this.encyclopedia.getDiscoveryRate() * 100)}%`,
+    ];
     this.container.add(
-      this.scene.add.text(C.GAME_WIDTH / 2, C.GAME_HEIGHT - 20, 'Tabで閉じる', {
-        fontSize: '12px', color: '#888888',
-      }).setOrigin(0.5)
+      this.scene.add.text(left, 115, totals.join('\n'), {
+        fontSize: '13px', color: '#dddddd', lineSpacing: 6,
+      })
+    );
+
+    this.addHeading(left, 290, 'ゴール別 (このレベル)');
+    const goals = Object.values(data.goals[this.level.levelKey] ?? {});
+    const goalLines = goals.length > 0
+      ? goals.map((g) => `${g.name}\n  クリア ${g.clears}回  最速 ${formatTicks(g.bestTicks)}  最高残HP ${g.bestHp}`)
+      : ['まだクリアしていない'];
+    this.container.add(
+      this.scene.add.text(left, 315, goalLines.join('\n'), {
+        fontSize: '13px', color: '#ccaa66', lineSpacing: 6,
+      })
     );
+
+    this.addHeading(left, 420, 'バッジ');
+    const badgeLines = data.badges.slice(0, MAX_LISTED_BADGES)
+      .map((b) => `${challengeName(b.rules)} (${goalName(data, b.goal)})  ×${b.clears}`);
+    if (data.badges.length > MAX_LISTED_BADGES) badgeLines.push(`…他 ${data.badges.length - MAX_LISTED_BADGES} 個`);
+    this.container.add(
+      this.scene.add.text(left, 445, badgeLines.length > 0 ? badgeLines.join('\n') : 'まだ獲得していない', {
+        fontSize: '13px', color: '#ff88ff', lineSpacing: 6,
+      })
+    );
+
+    this.addHeading(right, 90, '食性別の総摂取量');
+    const maxIntake = Math.max(1, ...Object.values(data.foodIntake));
+    ALL_FOOD_TYPE_IDS.forEach((id, i) => {
+      const ft = foodTypes[id];
+      this.addBarRow(gfx, right, 120 + i * 22, ft.name, data.foodIntake[id], maxIntake, ft.color);
+    });
+
+    this.addHeading(right, 230, '死因');
+    const causes = Object.keys(DEATH_CAUSE_LABELS) as DeathCause[];
+    const maxDeaths = Math.max(1, ...Object.values(data.deaths));
+    causes.forEach((cause, i) => {
+      this.addBarRow(gfx, right, 260 + i * 22, DEATH_CAUSE_LABELS[cause], data.deaths[cause], maxDeaths, 0xcc4444);
+    });
+
+    this.addHeading(right, 370, '最も多く到達したバイオーム');
+    const mostReached = this.encyclopedia.getMostReachedBiome();
+    const maxReached = Math.max(1, ...Object.values(data.furthestBiomes));
+    ALL_BIOME_IDS.forEach((id, i) => {
+      const name = id === mostReached ? `★${biomes[id].name}` : biomes[id].name;
+      this.addBarRow(gfx, right, 400 + i * 22, name, data.furthestBiomes[id], maxReached, 0x4488ff);
+    });
   }
 
-  private drawTree(discovered: EvolutionNodeId[]): void {
+  /** Minimap of the current stage with every fall and death logged on it. */
+  private drawHeatmapPage(): void {
     if (!this.container) return;
+    const { stage, levelKey, layoutHash } = this.level;
+    const points = this.encyclopedia.getHeatPoints(levelKey, layoutHash);
+
+    // Fit the stage into the left part of the page
+    const areaW = 460;
+    const areaH = C.GAME_HEIGHT - 110;
+    const scale = Math.min(areaW / stage.width, areaH / stage.height);
+    const mapX = 40 + (areaW - stage.width * scale) / 2;
+    const map = this.scene.add.graphics().setPosition(mapX, 60).setScale(scale);
+    drawBackground(map, stage);
+    drawWalls(map, stage.walls);
+    map.fillStyle(0xaaaaaa, 0.9);
+    for (const p of stage.platforms) map.fillRect(p.x - p.w / 2, p.y - p.h / 2, p.w, p.h);
+    for (const goal of stage.goals) drawGoalArea(map, goal);
+    const heat = this.scene.add.graphics().setPosition(mapX, 60).setScale(scale);
+    drawHeatPoints(heat, points, 12 / scale);
+    this.container.add([map, heat]);
+
+    const falls = points.filter((p) => p.kind === 'fall').length;
+    const info = [
+      `このレイアウト: 落下 ${falls}回 / 死亡 ${points.length - falls}回`,
+      `全レベルの記録: ${this.encyclopedia.getData().heatmap.length}件`,
+      '',
+      '● 橙: 落下ダメージ',
+      '● 赤: 死亡',
+    ];
+    this.container.add(
+      this.scene.add.text(540, 70, info.join('\n'), { fontSize: '13px', color: '#dddddd', lineSpacing: 6 })
+    );
 
+    const exportButton = this.scene.add.text(540, 200, '[CSV書き出し]', {
+      fontSize: '14px', color: '#88ccff',
+    }).setInteractive({ useHandCursor: true });
+    exportButton.on('pointerdown', () => {
+      downloadText('phyloclimb-heatmap.csv', heatPointsToCsv([...this.encyclopedia.getData().heatmap]), 'text/csv');
+    });
+    this.container.add(exportButton);
+  }
+
+  /** Recent runs as a sortable table; clicking a run shows its details on the right. */
+  private drawHistory(data: Readonly<EncyclopediaData>): void {
+    if (!this.container) return;
     const gfx = this.scene.add.graphics();
     this.container.add(gfx);
 
-    // Branch layout: two horizontal rows
-    const dustBranch: EvolutionNodeId[] = ['stretch_1', 'stretch_2', 'sticky_1'];
-    const sapBranch: EvolutionNodeId[] = ['jump_1', 'jump_2', 'traction_1'];
+    const headerY = 75;
+    for (const column of HISTORY_COLUMNS) {
+      const arrow = column.id === this.historySort ? (this.historyDescending ? ' ▼' : ' ▲') : '';
+      const header = this.scene.add.text(column.x, headerY, column.label + arrow, {
+        fontSize: '13px', color: '#88ff88', fontStyle: 'bold',
+      }).setOrigin(0, 0.5).setInteractive({ useHandCursor: true });
+      header.on('pointerdown', () => {
+        this.historyDescending = column.id === this.historySort ? !this.historyDescending : true;
+        this.historySort = column.id;
+        this.showPage('history');
+      });
+      this.container.add(header);
+    }
 
-    const branchStartX = 180;
-    const nodeSpacing = 160;
-    const dustY = 180;
-    const sapY = 340;
-    const nodeRadius = 24;
+    if (data.history.length === 0) {
+      this.container.add(
+        this.scene.add.text(30, headerY + 30, 'まだ記録がありません', { fontSize: '13px', color: '#888888' })
+      );
+      return;
+    }
+
+    const sortValue = HISTORY_COLUMNS.find((c) => c.id === this.historySort)!.value;
+    const direction = this.historyDescending ? -1 : 1;
+    const runs = [...data.history].sort((a, b) => direction * (sortValue(a) - sortValue(b)) || b.date - a.date);
+    const selected = runs.find((r) => r.date === this.selectedRun) ?? runs[0];
+
+    runs.forEach((run, i) => {
+      const y = headerY + 25 + i * 22;
+      if (run === selected) {
+        gfx.fillStyle(0x88ff88, 0.15);
+        gfx.fillRect(25, y - 10, 480, 20);
+      }
+      const cells = [
+        formatDate(run.date),
+        formatTicks(run.ticks),
+        this.outcomeLabel(run),
+        `${run.peakHeight}m`,
+        `${run.remainingHp}`,
+        `${run.evolutions.length}`,
+      ];
+      HISTORY_COLUMNS.forEach((column, c) => {
+        this.container!.add(
+          this.scene.add.text(column.x, y, cells[c], {
+            fontSize: '12px', color: run.goal ? '#ffd700' : '#dddddd',
+          }).setOrigin(0, 0.5)
+        );
+      });
+      const row = this.scene.add.zone(25, y - 10, 480, 20).setOrigin(0, 0).setInteractive({ useHandCursor: true });
+      row.on('pointerdown', () => {
+        this.selectedRun = run.date;
+        this.showPage('history');
+      });
+      this.container!.add(row);
+    });
 
-    // Branch labels
+    // Details of the selected run
+    const details = [
+      new Date(selected.date).toLocaleString('ja-JP'),
+      `レベル: ${selected.levelKey}`,
+      `時間: ${formatTicks(selected.ticks)}`,
+      `結果: ${this.outcomeLabel(selected)}`,
+      `最高高度: ${selected.peakHeight}m`,
+      `残HP: ${selected.remainingHp}`,
+      '',
+      '進化:',
+      ...(selected.evolutions.length > 0
+        ? selected.evolutions.map((e) => `  ${formatTicks(e.tick)}  ${evolutionTree[e.node].name}`)
+        : ['  なし']),
+    ];
+    this.addHeading(530, headerY, 'ラン詳細');
     this.container.add(
-      this.scene.add.text(80, dustY, '塵\n(Dust)', {
-        fontSize: '14px', color: '#ccccbb', align: 'center',
-      }).setOrigin(0.5)
+      this.scene.add.text(530, headerY + 20, details.join('\n'), {
+        fontSize: '12px', color: '#dddddd', lineSpacing: 4,
+      })
     );
+  }
+
+  private outcomeLabel(run: RunHistoryEntry): string {
+    if (run.goal) return this.encyclopedia.getGoalRecord(run.levelKey, run.goal)?.name ?? run.goal;
+    return run.deathCause ? `死亡 (${DEATH_CAUSE_LABELS[run.deathCause]})` : '死亡';
+  }
+
+  /** Every achievement in two columns, unlocked ones with their date. */
+  private drawAchievements(data: Readonly<EncyclopediaData>): void {
+    if (!this.container) return;
+    const unlocked = achievements.filter((a) => data.achievements[a.id] !== undefined).length;
     this.container.add(
-      this.scene.add.text(80, sapY, '液\n(Sap)', {
-        fontSize: '14px', color: '#ddaa44', align: 'center',
+      this.scene.add.text(C.GAME_WIDTH / 2, 70, `解除: ${unlocked}/${achievements.length}`, {
+        fontSize: '13px', color: '#aaaaaa',
       }).setOrigin(0.5)
     );
 
-    // Draw branches
-    this.drawBranch(gfx, dustBranch, discovered, branchStartX, dustY, nodeSpacing, nodeRadius);
-    this.drawBranch(gfx, sapBranch, discovered, branchStartX, sapY, nodeSpacing, nodeRadius);
+    const perColumn = Math.ceil(achievements.length / 2);
+    achievements.forEach((a, i) => {
+      const x = i < perColumn ? 40 : 420;
+      const y = 100 + (i % perColumn) * 62;
+      const unlockedAt = data.achievements[a.id];
+      const done = unlockedAt !== undefined;
+      this.container!.add([
+        this.scene.add.text(x, y, `${done ? '★' : '☆'} ${a.name}`, {
+          fontSize: '14px', color: done ? '#ffd700' : '#777777', fontStyle: 'bold',
+        }),
+        this.scene.add.text(x + 18, y + 20, a.description, {
+          fontSize: '12px', color: done ? '#dddddd' : '#777777',
+        }),
+        this.scene.add.text(x + 18, y + 36, done ? `${formatDate(unlockedAt)} 解除` : '未解除', {
+          fontSize: '10px', color: '#666666',
+        }),
+      ]);
+    });
+  }
+
+  private addHeading(x: number, y: number, label: string): void {
+    this.container!.add(
+      this.scene.add.text(x, y, label, {
+        fontSize: '15px', color: '#88ff88', fontStyle: 'bold',
+      }).setOrigin(0, 0.5)
+    );
+  }
+
+  /** Label, a bar scaled to `max`, and the value. */
+  private addBarRow(
+    gfx: Phaser.GameObjects.Graphics,
+    x: number,
+    y: number,
+    label: string,
+    value: number,
+    max: number,
+    color: number,
+  ): void {
+    const barX = x + 120;
+    const barW = 150;
+    gfx.fillStyle(0x222222, 1);
+    gfx.fillRect(barX, y - 5, barW, 10);
+    gfx.fillStyle(color, 0.8);
+    gfx.fillRect(barX, y - 5, barW * (value / max), 10);
+
+    this.container!.add([
+      this.scene.add.text(x, y, label, { fontSize: '12px', color: '#dddddd' }).setOrigin(0, 0.5),
+      this.scene.add.text(barX + barW + 8, y, `${value}`, { fontSize: '12px', color: '#ffffff' }).setOrigin(0, 0.5),
+    ]);
+  }
+
+  private drawTree(discovered: EvolutionNodeId[]): void {
+    if (!this.container) return;
+
+    const gfx = this.scene.add.graphics();
+    this.container.add(gfx);
+
+    // Branch layout: one horizontal row per food type, then mixed evolutions
+    const branches: EvolutionBranch[] = [...ALL_FOOD_TYPE_IDS, 'mixed'];
+    const rows = branches.filter((b) => getBranchNodes(b).length > 0);
+
+    const branchStartX = 180;
+    const nodeSpacing = 160;
+    const top = 110;
+    const rowSpacing = (C.GAME_HEIGHT - 60 - top) / rows.length;
+    const nodeRadius = Math.min(24, Math.floor(rowSpacing * 0.25));
+
+    rows.forEach((branch, i) => {
+      const y = top + rowSpacing * (i + 0.3);
+      const label = branch === 'mixed'
+        ? { text: '混合\n(Mixed)', color: '#99bb55' }
+        : {
+          text: `${foodTypes[branch].name}\n(${foodTypes[branch].nameEn})`,
+          color: `#${foodTypes[branch].color.toString(16).padStart(6, '0')}`,
+        };
+
+      // Branch label
+      this.container!.add(
+        this.scene.add.text(80, y, label.text, {
+          fontSize: '14px', color: label.color, align: 'center',
+        }).setOrigin(0.5)
+      );
+
+      this.drawBranch(gfx, getBranchNodes(branch), discovered, branchStartX, y, nodeSpacing, nodeRadius);
+    });
   }
 
   private drawBranch(
@@ -185,3 +558,18 @@ export class EncyclopediaUI {
     this.hide();
   }
 }
+
+/** Date and time as MM/DD hh:mm. */
+/** Display name a goal label was last cleared under, on any level. */
+function goalName(data: Readonly<EncyclopediaData>, label: string): string {
+  for (const records of Object.values(data.goals)) {
+    if (records[label]) return records[label].name;
+  }
+  return label;
+}
+
+function formatDate(date: number): string {
+  return new Date(date).toLocaleString('ja-JP', {
+    month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit',
+  });
+}
@@ -0,0 +1,37 @@
+import Phaser from 'phaser';
+import { HeatPoint } from '../systems/EncyclopediaSystem';
+
+/**
+ * Fall and death heatmaps: drawing, shared by the GameScene overlay and
+ * the encyclopedia, and CSV export of the raw points.
+ */
+
+const FALL_COLOR = 0xff8800;
+const DEATH_COLOR = 0xff2222;
+
+/**
+ * Each point is a soft blob drawn additively, so places where players
+ * failed often glow brighter. `radius` is in the units of `gfx`, so
+ * scaled-down minimaps can pass a larger one.
+ */
+export function drawHeatPoints(gfx: Phaser.GameObjects.Graphics, points: HeatPoint[], radius: number): void {
+  gfx.setBlendMode(Phaser.BlendModes.ADD);
+  for (const p of points) {
+    const color = p.kind === 'death' ? DEATH_COLOR : FALL_COLOR;
+    gfx.fillStyle(color, 0.08);
+    gfx.fillCircle(p.x, p.y, radius);
+    gfx.fillStyle(color, 0.15);
+    gfx.fillCircle(p.x, p.y, radius * 0.5);
+    gfx.fillStyle(color, 0.5);
+    gfx.fillCircle(p.x, p.y, radius * 0.15);
+  }
+}
+
+/** Raw heat points as CSV, one row per event, for balancing spreadsheets. */
+export function heatPointsToCsv(points: HeatPoint[]): string {
+  const quote = (text: string) => (/[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text);
+  const rows = points.map((p) => [
+    quote(p.levelKey), p.layoutHash, p.kind, p.x, p.y, p.damage, p.cause ?? '', new Date(p.at).toISOString(),
+  ].join(','));
+  return ['level,layout,kind,x,y,damage,cause,time', ...rows].join('\n') + '\n';
+}
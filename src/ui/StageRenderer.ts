@@ -0,0 +1,103 @@
+import Phaser from 'phaser';
+import * as C from '../constants';
+import { foodTypes } from '../data/foodTypes';
+import { biomes, Biome } from '../data/biomes';
+import {
+  FoodItemDef, GoalDef, HookPointDef, PlatformDef, PointDef, StageLayout, findSectionAt,
+} from '../data/stageData';
+
+/**
+ * Static stage visuals shared by GameScene and the level editor, so a
+ * level looks the same while editing as while playing.
+ */
+
+/**
+ * Biome at a world position. Between sections it is `fallback`: for the
+ * player, the biome they were last in; by default the start section's.
+ */
+export function biomeAt(
+  stage: StageLayout,
+  x: number,
+  y: number,
+  fallback: Biome = biomes[stage.sections[0].biome],
+): Biome {
+  const section = findSectionAt(stage, x, y);
+  return section ? biomes[section.biome] : fallback;
+}
+
+/** Each section gets a vertical gradient in its biome's colors. */
+export function drawBackground(gfx: Phaser.GameObjects.Graphics, stage: StageLayout): void {
+  const bandHeight = 40;
+  for (const section of stage.sections) {
+    const { palette } = biomes[section.biome];
+    const top = Phaser.Display.Color.IntegerToColor(palette.backgroundTop);
+    const bottom = Phaser.Display.Color.IntegerToColor(palette.backgroundBottom);
+    for (let y = 0; y < section.h; y += bandHeight) {
+      const h = Math.min(bandHeight, section.h - y);
+      const c = Phaser.Display.Color.Interpolate.ColorWithColor(top, bottom, section.h, y + h / 2);
+      gfx.fillStyle(Phaser.Display.Color.GetColor(c.r, c.g, c.b), 1);
+      gfx.fillRect(section.x, section.y + y, section.w, h);
+    }
+  }
+}
+
+/** Section walls; only their inner 5px edge shows inside a section. */
+export function drawWalls(gfx: Phaser.GameObjects.Graphics, walls: PlatformDef[]): void {
+  gfx.fillStyle(C.COLOR_WALL, 1);
+  for (const w of walls) {
+    gfx.fillRect(w.x - w.w / 2 - 5, w.y - w.h / 2 - 5, w.w + 10, w.h + 10);
+  }
+}
+
+export function drawPlatform(gfx: Phaser.GameObjects.Graphics, p: PlatformDef, biome: Biome): void {
+  gfx.fillStyle(biome.palette.platform, 1);
+  gfx.fillRect(p.x - p.w / 2, p.y - p.h / 2, p.w, p.h);
+  gfx.fillStyle(biome.palette.platformEdge, 1);
+  gfx.fillRect(p.x - p.w / 2, p.y - p.h / 2, p.w, 2);
+}
+
+export function drawRecoveryPoint(gfx: Phaser.GameObjects.Graphics, r: PointDef): void {
+  gfx.fillStyle(C.COLOR_RECOVERY, 0.8);
+  gfx.fillRect(r.x - 3, r.y - 10, 6, 20);
+  gfx.fillRect(r.x - 10, r.y - 3, 20, 6);
+  gfx.fillStyle(C.COLOR_RECOVERY, 0.12);
+  gfx.fillCircle(r.x, r.y, 22);
+}
+
+export function goalColor(goal: GoalDef): number {
+  return goal.label === 'goal_near' ? C.COLOR_GOAL : C.COLOR_GOAL_FAR;
+}
+
+export function goalTextColor(goal: GoalDef): string {
+  return goal.label === 'goal_near' ? '#ffd700' : '#ff8800';
+}
+
+export function drawGoalArea(gfx: Phaser.GameObjects.Graphics, goal: GoalDef): void {
+  const color = goalColor(goal);
+  gfx.fillStyle(color, 0.3);
+  gfx.fillRect(goal.x - goal.w / 2, goal.y - goal.h / 2, goal.w, goal.h);
+  gfx.lineStyle(2, color, 0.8);
+  gfx.strokeRect(goal.x - goal.w / 2, goal.y - goal.h / 2, goal.w, goal.h);
+}
+
+/** Still image of a hook point (GameScene animates its own). */
+export function drawHookPoint(gfx: Phaser.GameObjects.Graphics, h: HookPointDef): void {
+  const color = h.mimic ? C.COLOR_MIMIC : C.COLOR_HOOK;
+  gfx.fillStyle(color, 0.15);
+  gfx.fillCircle(h.x, h.y, 14);
+  gfx.fillStyle(color, 0.7);
+  gfx.fillCircle(h.x, h.y, 8);
+}
+
+/** Still image of a food item (GameScene animates its own). */
+export function drawFoodItem(gfx: Phaser.GameObjects.Graphics, f: FoodItemDef): void {
+  const ft = foodTypes[f.type];
+  if (ft.embedded) {
+    gfx.fillStyle(C.COLOR_WALL, 1);
+    gfx.fillRect(f.x - ft.radius * 1.5, f.y - ft.radius * 1.5, ft.radius * 3, ft.radius * 3);
+  }
+  gfx.fillStyle(ft.glowColor, 0.12);
+  gfx.fillCircle(f.x, f.y, ft.radius * 2.5);
+  gfx.fillStyle(ft.color, 0.85);
+  gfx.fillCircle(f.x, f.y, ft.radius);
+}
@@ -0,0 +1,35 @@
+/**
+ * Browser file helpers for importing and exporting JSON/CSV/text documents.
+ */
+
+/** Offer `text` to the player as a file download. */
+export function downloadText(filename: string, text: string, mimeType = 'application/json'): void {
+  const blob = new Blob([text], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+/** Let the player pick a text file. Resolves to its contents, or null if cancelled. */
+export function pickTextFile(accept = '.json,application/json'): Promise<string | null> {
+  return new Promise((resolve) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = accept;
+    input.addEventListener('change', () => {
+      const file = input.files?.[0];
+      if (!file) {
+        resolve(null);
+        return;
+      }
+      file.text().then(resolve, () => resolve(null));
+    });
+    input.addEventListener('cancel', () => resolve(null));
+    input.click();
+  });
+}